@@ -0,0 +1,92 @@
+import { parseSize } from './uploadRules';
+
+// 附件分类: 按 MIME 类型 (或扩展名) 决定上传配置、大小限制和插入的链接写法
+export type AttachmentCategory = 'image' | 'video' | 'audio' | 'pdf' | 'other';
+
+// 附件路由规则: 图片始终上传, 其他分类只有存在对应规则时才上传
+export interface AttachmentRoute {
+    category: AttachmentCategory;
+    // 空字符串表示按笔记规则选择的配置
+    profileId: string;
+    // 大小上限, 如 50MB; 空字符串表示不限制
+    maxSize: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+    'png': 'image/png',
+    'jpg': 'image/jpeg',
+    'jpeg': 'image/jpeg',
+    'gif': 'image/gif',
+    'webp': 'image/webp',
+    'bmp': 'image/bmp',
+    'svg': 'image/svg+xml',
+    'avif': 'image/avif',
+    'mp4': 'video/mp4',
+    'webm': 'video/webm',
+    'mov': 'video/quicktime',
+    'mkv': 'video/x-matroska',
+    'ogv': 'video/ogg',
+    'mp3': 'audio/mpeg',
+    'wav': 'audio/wav',
+    'm4a': 'audio/mp4',
+    'ogg': 'audio/ogg',
+    'flac': 'audio/flac',
+    '3gp': 'audio/3gpp',
+    'pdf': 'application/pdf'
+};
+
+// 按扩展名取得 MIME 类型, 未知扩展名返回空字符串
+export function getMimeTypeByName(name: string): string {
+    const ext = name.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+    return MIME_TYPES[ext] ?? '';
+}
+
+export function getAttachmentCategory(type: string, name: string): AttachmentCategory {
+    const mime = (type || getMimeTypeByName(name)).toLowerCase();
+    if (mime.startsWith('image/')) return 'image';
+    if (mime.startsWith('video/')) return 'video';
+    if (mime.startsWith('audio/')) return 'audio';
+    if (mime === 'application/pdf') return 'pdf';
+    return 'other';
+}
+
+export function findRoute(routes: AttachmentRoute[], category: AttachmentCategory): AttachmentRoute | undefined {
+    return routes.find(route => route.category === category);
+}
+
+export function canUploadCategory(routes: AttachmentRoute[], category: AttachmentCategory): boolean {
+    return category === 'image' || !!findRoute(routes, category);
+}
+
+const CATEGORY_LABEL: Record<AttachmentCategory, string> = {
+    image: '图片',
+    video: '视频',
+    audio: '音频',
+    pdf: 'PDF',
+    other: '其他附件'
+};
+
+// 超过该分类的大小上限时返回原因, 否则返回 null
+export function checkRouteSize(routes: AttachmentRoute[], category: AttachmentCategory, size: number): string | null {
+    const route = findRoute(routes, category);
+    const limit = route ? parseSize(route.maxSize) : null;
+    return limit !== null && size > limit ? `${CATEGORY_LABEL[category]}超过大小上限 ${route?.maxSize.trim()}` : null;
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+// 上传后插入的链接: 视频和音频使用 HTML 播放器, PDF 和其他文件使用普通链接; 图片由调用方处理宽度
+export function buildAttachmentLink(category: AttachmentCategory, url: string, name: string): string {
+    switch (category) {
+        case 'image':
+            return `![](${url})`;
+        case 'video':
+            return `<video src="${escapeAttribute(url)}" controls></video>`;
+        case 'audio':
+            return `<audio src="${escapeAttribute(url)}" controls></audio>`;
+        default:
+            return `[${name.replace(/[[\]]/g, '\\$&')}](${url})`;
+    }
+}
@@ -0,0 +1,149 @@
+import { UploadProfile } from './profiles';
+import { HttpClient } from './request';
+import { SecretStore } from './secrets';
+import { hmacSha256, sha256Hex, stringToBase64, toHex } from './hash';
+
+// 各认证方式和内置后端使用的密钥名称, 密钥保存在 SecretStore 中
+export const AUTH_SECRETS = {
+    token: 'token',
+    password: 'password',
+    clientSecret: 'clientSecret',
+    hmacSecret: 'hmacSecret',
+    s3SecretAccessKey: 's3SecretAccessKey',
+    webdavPassword: 'webdavPassword',
+    githubToken: 'githubToken'
+};
+
+interface CachedToken {
+    token: string;
+    expiresAt: number;
+}
+
+// 令牌过期前提前刷新的时间
+const EXPIRY_MARGIN_MS = 60 * 1000;
+// 响应中没有 expires_in 时令牌的有效期
+const DEFAULT_EXPIRES_IN = 3600;
+
+// 为自定义接口的请求生成认证请求头; OAuth2 令牌缓存在内存中, 同一配置的并发请求共用一次刷新
+export class AuthManager {
+    private tokens = new Map<string, CachedToken>();
+    private pending = new Map<string, Promise<string>>();
+
+    constructor(private secrets: SecretStore) {}
+
+    async getHeaders(profile: UploadProfile, request: { url: string, method: string, body?: string | ArrayBuffer },
+                     http: HttpClient): Promise<Record<string, string>> {
+        const { auth } = profile;
+        switch (auth.type) {
+            case 'bearer': {
+                const token = this.requireSecret(profile, AUTH_SECRETS.token, ' Bearer 令牌');
+                return { Authorization: `Bearer ${token}` };
+            }
+            case 'basic': {
+                const password = this.requireSecret(profile, AUTH_SECRETS.password, '密码');
+                return { Authorization: `Basic ${stringToBase64(`${auth.username}:${password}`)}` };
+            }
+            case 'oauth2':
+                return { Authorization: `Bearer ${await this.getAccessToken(profile, http)}` };
+            case 'hmac':
+                return this.sign(profile, request);
+            default:
+                return {};
+        }
+    }
+
+    // 读取本机保存的密钥; 密钥不随设置同步, 在其他设备上没有填写时给出明确的错误而不是发送不完整的认证
+    requireSecret(profile: UploadProfile, name: string, label: string): string {
+        const value = this.secrets.get(profile.id, name);
+        if (!value) throw new Error(`上传配置 "${profile.name}" 的${label}没有在本设备上设置`);
+        return value;
+    }
+
+    // 只有 OAuth2 可以在 401 后刷新令牌重试
+    canRefresh(profile: UploadProfile): boolean {
+        return profile.auth.type === 'oauth2';
+    }
+
+    // 丢弃缓存的令牌, 下次请求时重新获取
+    invalidate(profile: UploadProfile) {
+        this.tokens.delete(this.tokenKey(profile));
+    }
+
+    private tokenKey(profile: UploadProfile): string {
+        return `${profile.id}:${profile.auth.tokenUrl}:${profile.auth.clientId}`;
+    }
+
+    private async getAccessToken(profile: UploadProfile, http: HttpClient): Promise<string> {
+        const key = this.tokenKey(profile);
+        const cached = this.tokens.get(key);
+        if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return cached.token;
+
+        let pending = this.pending.get(key);
+        if (!pending) {
+            pending = this.fetchAccessToken(profile, http)
+                .then(({ token, expiresAt }) => {
+                    this.tokens.set(key, { token, expiresAt });
+                    return token;
+                })
+                .finally(() => this.pending.delete(key));
+            this.pending.set(key, pending);
+        }
+        return pending;
+    }
+
+    // OAuth2 client credentials: 以表单提交客户端 ID 和密钥换取访问令牌
+    private async fetchAccessToken(profile: UploadProfile, http: HttpClient): Promise<CachedToken> {
+        const { auth } = profile;
+        if (!auth.tokenUrl.trim() || !auth.clientId.trim()) {
+            throw new Error(`上传配置 "${profile.name}" 的 OAuth2 设置不完整, 需要令牌地址和客户端 ID`);
+        }
+        const params = new URLSearchParams({
+            grant_type: 'client_credentials',
+            client_id: auth.clientId.trim(),
+            client_secret: this.requireSecret(profile, AUTH_SECRETS.clientSecret, '客户端密钥')
+        });
+        if (auth.scope.trim()) params.set('scope', auth.scope.trim());
+
+        const response = await http.request({
+            url: auth.tokenUrl.trim(),
+            method: 'POST',
+            body: params.toString(),
+            contentType: 'application/x-www-form-urlencoded'
+        });
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`获取访问令牌失败: HTTP ${response.status}`);
+        }
+
+        let data: { access_token?: unknown, expires_in?: unknown };
+        try {
+            data = JSON.parse(response.text);
+        } catch {
+            throw new Error('获取访问令牌失败: 响应不是 JSON');
+        }
+        if (typeof data.access_token !== 'string' || !data.access_token) {
+            throw new Error('获取访问令牌失败: 响应中没有 access_token');
+        }
+        const expiresIn = Number(data.expires_in) > 0 ? Number(data.expires_in) : DEFAULT_EXPIRES_IN;
+        return { token: data.access_token, expiresAt: Date.now() + expiresIn * 1000 };
+    }
+
+    // HMAC-SHA256 签名, 签名内容为 "方法\n路径和查询\n时间戳\n请求体 SHA-256", 时间戳为 Unix 秒
+    private async sign(profile: UploadProfile, request: { url: string, method: string, body?: string | ArrayBuffer }):
+        Promise<Record<string, string>> {
+        const { auth } = profile;
+        const secret = this.requireSecret(profile, AUTH_SECRETS.hmacSecret, ' HMAC 密钥');
+
+        const url = new URL(request.url);
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const bodyHash = await sha256Hex(request.body ?? '');
+        const stringToSign = [request.method.toUpperCase(), url.pathname + url.search, timestamp, bodyHash].join('\n');
+        const signature = toHex(await hmacSha256(secret, stringToSign));
+
+        const headers: Record<string, string> = {
+            [auth.timestampHeader || 'X-Timestamp']: timestamp,
+            [auth.signatureHeader || 'X-Signature']: signature
+        };
+        if (auth.keyId.trim()) headers[auth.keyIdHeader || 'X-Key-Id'] = auth.keyId.trim();
+        return headers;
+    }
+}
@@ -0,0 +1,291 @@
+import { App, Notice, TFile, TFolder, moment } from 'obsidian';
+import { JsonStore } from './jsonStore';
+import type { UploadProgress } from './main';
+import { RequestAttempt, describeAttempts } from './request';
+
+// 批量任务状态, 每处理完一个文件保存一次, 插件重新加载后可以继续
+export type BatchJobStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+// 上传本地和远程图片, 或把远程图片下载回库中
+export type BatchJobMode = 'upload' | 'download';
+
+export interface BatchFileResult {
+    path: string;
+    success: number;
+    failed: number;
+    skipped: number;
+    blacklisted: number;
+    errors: Array<{url: string, error: string, attempts?: RequestAttempt[]}>;
+}
+
+export interface BatchJobState {
+    // 空字符串表示整个库, 否则为文件夹路径
+    scope: string;
+    // 旧版本保存的任务没有此字段, 视为上传
+    mode?: BatchJobMode;
+    status: BatchJobStatus;
+    total: number;
+    pending: string[];
+    results: BatchFileResult[];
+    startedAt: number;
+    finishedAt?: number;
+}
+
+export interface BatchJobHost {
+    app: App;
+    // 上传单个笔记或画布中的图片并写回文件, 没有图片时返回 null
+    uploadImagesInFile(file: TFile): Promise<UploadProgress | null>;
+    // 下载单个笔记中的远程图片并改写为本地链接, 没有远程图片时返回 null
+    downloadImagesInFile(file: TFile): Promise<UploadProgress | null>;
+    // 不参与批量处理的文件, 如导出的副本和报告
+    isExcludedFromScan(path: string): boolean;
+    // 在报告文件夹中创建报告笔记
+    createReport(name: string, content: string): Promise<TFile>;
+}
+
+const MODE_LABEL: Record<BatchJobMode, string> = {
+    upload: '上传',
+    download: '下载'
+};
+
+export class BatchJobRunner {
+    state: BatchJobState | null = null;
+    private running = false;
+    // 插件卸载后不再处理文件, 也不再写入进度
+    private stopped = false;
+    private notice: Notice | null = null;
+
+    constructor(private host: BatchJobHost, private store: JsonStore<BatchJobState>) {}
+
+    // 恢复上次未完成的任务, 运行中的任务自动继续
+    async restore() {
+        this.state = await this.store.load();
+        if (this.state?.status === 'running') {
+            new Notice(`继续上次未完成的批量${this.label} (剩余 ${this.state.pending.length} 个文件)`);
+            this.run();
+        }
+    }
+
+    isActive(): boolean {
+        return !!this.state && (this.state.status === 'running' || this.state.status === 'paused');
+    }
+
+    isPaused(): boolean {
+        return this.state?.status === 'paused';
+    }
+
+    private get label(): string {
+        return MODE_LABEL[this.state?.mode ?? 'upload'];
+    }
+
+    async start(folder: TFolder | null, mode: BatchJobMode = 'upload') {
+        if (this.isActive()) {
+            new Notice(`已有批量${this.label}任务, 请先完成或取消`);
+            return;
+        }
+
+        const scope = folder && !folder.isRoot() ? folder.path : '';
+        // 上传时同时处理画布 (.canvas) 中引用的文件
+        const files = this.host.app.vault.getFiles()
+            .filter(file => file.extension === 'md' || (mode === 'upload' && file.extension === 'canvas'))
+            .filter(file => !scope || file.path.startsWith(scope + '/'))
+            .filter(file => !this.host.isExcludedFromScan(file.path))
+            .map(file => file.path)
+            .sort();
+
+        if (files.length === 0) {
+            new Notice(mode === 'upload' ? '范围内没有 Markdown 或画布文件' : '范围内没有 Markdown 文件');
+            return;
+        }
+
+        this.state = {
+            scope,
+            mode,
+            status: 'running',
+            total: files.length,
+            pending: files,
+            results: [],
+            startedAt: Date.now()
+        };
+        await this.store.save(this.state);
+        new Notice(`开始批量${this.label} ${files.length} 个文件中的图片...`);
+        this.run();
+    }
+
+    async pause() {
+        if (this.state?.status !== 'running') return;
+        this.state.status = 'paused';
+        await this.store.save(this.state);
+        this.updateNotice();
+    }
+
+    async resume() {
+        if (this.state?.status !== 'paused') return;
+        this.state.status = 'running';
+        await this.store.save(this.state);
+        this.run();
+    }
+
+    // 插件卸载时停止: 当前文件处理完后退出, 保存的进度保持运行中, 下次加载时继续
+    stop() {
+        this.stopped = true;
+        if (this.notice) {
+            this.notice.hide();
+            this.notice = null;
+        }
+    }
+
+    async cancel() {
+        if (!this.isActive() || !this.state) return;
+        this.state.status = 'cancelled';
+        await this.store.save(this.state);
+        // 运行中的任务在当前文件处理完后结束
+        if (!this.running) await this.finish();
+    }
+
+    private async run() {
+        if (this.running || this.stopped || !this.state) return;
+        this.running = true;
+        const state = this.state;
+
+        try {
+            while (!this.stopped && state.status === 'running' && state.pending.length > 0) {
+                const path = state.pending[0];
+                const result: BatchFileResult = { path, success: 0, failed: 0, skipped: 0, blacklisted: 0, errors: [] };
+
+                const file = this.host.app.vault.getAbstractFileByPath(path);
+                if (file instanceof TFile) {
+                    try {
+                        const progress = state.mode === 'download'
+                            ? await this.host.downloadImagesInFile(file)
+                            : await this.host.uploadImagesInFile(file);
+                        if (progress) {
+                            result.success = progress.success;
+                            result.failed = progress.failed;
+                            result.skipped = progress.skipped;
+                            result.blacklisted = progress.blacklisted;
+                            result.errors = progress.errors;
+                        }
+                    } catch (error) {
+                        result.failed++;
+                        result.errors.push({ url: path, error: error.message || '未知错误' });
+                        console.error(`❌ 处理文件失败: ${path}`, error);
+                    }
+                }
+                // 卸载后新加载的实例会从保存的进度继续, 这里不再保存, 避免互相覆盖
+                if (this.stopped) return;
+
+                state.pending.shift();
+                if (result.success + result.failed + result.skipped + result.blacklisted > 0) {
+                    state.results.push(result);
+                }
+                await this.store.save(state);
+                this.updateNotice();
+            }
+
+            if (!this.stopped && (state.status === 'cancelled' || state.pending.length === 0)) {
+                await this.finish();
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private totals(state: BatchJobState) {
+        return state.results.reduce((acc, result) => {
+            acc.success += result.success;
+            acc.failed += result.failed;
+            acc.skipped += result.skipped;
+            acc.blacklisted += result.blacklisted;
+            return acc;
+        }, { success: 0, failed: 0, skipped: 0, blacklisted: 0 });
+    }
+
+    private updateNotice() {
+        const state = this.state;
+        if (!state) return;
+
+        const done = state.total - state.pending.length;
+        const totals = this.totals(state);
+        let message = `批量${this.label}${state.status === 'paused' ? ' (已暂停)' : ''}: 文件 ${done}/${state.total}\n`;
+        message += `✅ ${totals.success}  ❌ ${totals.failed}  ⏭️ ${totals.skipped}  ⛔ ${totals.blacklisted}`;
+
+        if (!this.notice) {
+            this.notice = new Notice(message, 0);
+        } else {
+            this.notice.setMessage(message);
+        }
+    }
+
+    private async finish() {
+        const state = this.state;
+        if (!state) return;
+
+        if (state.pending.length === 0 && state.status !== 'cancelled') {
+            state.status = 'completed';
+        }
+        state.finishedAt = Date.now();
+
+        if (this.notice) {
+            this.notice.hide();
+            this.notice = null;
+        }
+
+        try {
+            const report = await this.writeReport(state);
+            await this.host.app.workspace.getLeaf(true).openFile(report);
+        } catch (error) {
+            console.error(`写入批量${this.label}报告失败:`, error);
+        }
+
+        const totals = this.totals(state);
+        new Notice(`批量${this.label}${state.status === 'cancelled' ? '已取消' : '完成'}: ✅ ${totals.success} 个成功, ❌ ${totals.failed} 个失败`, 10000);
+
+        this.state = null;
+        await this.store.clear();
+    }
+
+    private async writeReport(state: BatchJobState): Promise<TFile> {
+        const totals = this.totals(state);
+        const format = 'YYYY-MM-DD HH:mm:ss';
+        const lines = [
+            `# 图片批量${this.label}报告`,
+            '',
+            `- 范围: ${state.scope ? `文件夹 \`${state.scope}\`` : '整个库'}`,
+            `- 状态: ${state.status === 'cancelled' ? '已取消' : '已完成'}`,
+            `- 开始: ${moment(state.startedAt).format(format)}`,
+            `- 结束: ${moment(state.finishedAt).format(format)}`,
+            `- 文件: ${state.total - state.pending.length}/${state.total} 个已处理, ${state.results.length} 个包含图片`,
+            `- 图片: ✅ ${totals.success} 个成功, ❌ ${totals.failed} 个失败, ⏭️ ${totals.skipped} 个已存在, ⛔ ${totals.blacklisted} 个被规则排除`,
+            ''
+        ];
+
+        if (state.results.length > 0) {
+            lines.push('## 文件明细', '', '| 笔记 | ✅ | ❌ | ⏭️ | ⛔ |', '| --- | --- | --- | --- | --- |');
+            state.results.forEach(result => {
+                lines.push(`| [[${result.path}]] | ${result.success} | ${result.failed} | ${result.skipped} | ${result.blacklisted} |`);
+            });
+            lines.push('');
+        }
+
+        const failed = state.results.filter(result => result.errors.length > 0);
+        if (failed.length > 0) {
+            lines.push('## 失败详情', '');
+            failed.forEach(result => {
+                lines.push(`### [[${result.path}]]`, '');
+                result.errors.forEach(({url, error, attempts}) => {
+                    lines.push(`- \`${url}\`: ${error}`);
+                    if (attempts && attempts.length > 0) lines.push(`    - 请求记录: ${describeAttempts(attempts)}`);
+                });
+                lines.push('');
+            });
+        }
+
+        if (state.pending.length > 0) {
+            lines.push('## 未处理的文件', '');
+            state.pending.forEach(path => lines.push(`- [[${path}]]`));
+            lines.push('');
+        }
+
+        return this.host.createReport(`图片${this.label}报告 ${moment(state.finishedAt).format('YYYY-MM-DD HHmmss')}.md`, lines.join('\n'));
+    }
+}
@@ -0,0 +1,63 @@
+import { App, Modal, moment } from 'obsidian';
+import { UploadCache } from './uploadCache';
+import { UploadProfile } from './profiles';
+import { formatBytes } from './format';
+
+// 查看上传缓存: 按远程地址或来源搜索
+export class UploadCacheModal extends Modal {
+    constructor(app: App, private cache: UploadCache, private profiles: UploadProfile[]) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const entries = this.cache.getAll().sort((a, b) => b.createdAt - a.createdAt);
+        const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+        this.titleEl.setText('上传缓存');
+        contentEl.createEl('p', {
+            text: `共 ${entries.length} 条记录, 图片总大小 ${formatBytes(totalSize)}`,
+            cls: 'width-settings-desc'
+        });
+
+        const search = contentEl.createEl('input', {
+            type: 'search',
+            placeholder: '搜索远程地址或来源',
+            cls: 'upload-cache-search'
+        });
+        const tableContainer = contentEl.createDiv('upload-cache-table');
+
+        const render = () => {
+            tableContainer.empty();
+            const query = search.value.trim().toLowerCase();
+            const filtered = entries.filter(entry => !query ||
+                entry.url.toLowerCase().includes(query) || entry.sourceUrl.toLowerCase().includes(query));
+
+            if (filtered.length === 0) {
+                tableContainer.createEl('p', { text: '没有匹配的记录' });
+                return;
+            }
+
+            const table = tableContainer.createEl('table');
+            const header = table.createEl('tr');
+            ['远程地址', '来源', '配置', '大小', '时间'].forEach(text => header.createEl('th', { text }));
+
+            filtered.forEach(entry => {
+                const row = table.createEl('tr');
+                row.createEl('td').createEl('a', { text: entry.url, href: entry.url });
+                row.createEl('td', { text: entry.sourceUrl });
+                const profile = this.profiles.find(p => p.id === entry.profileId);
+                row.createEl('td', { text: profile?.name ?? '(已删除)' });
+                row.createEl('td', { text: formatBytes(entry.size) });
+                row.createEl('td', { text: moment(entry.createdAt).format('YYYY-MM-DD HH:mm') });
+            });
+        };
+
+        search.addEventListener('input', render);
+        render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,56 @@
+// Canvas 白板 (.canvas JSON): 找出引用库内文件的节点, 上传后改写为链接节点
+
+export interface CanvasNode {
+    id: string;
+    type: string;
+    // file 节点: 库内文件路径和可选的子路径
+    file?: string;
+    subpath?: string;
+    // link 节点: 网页地址
+    url?: string;
+    [key: string]: unknown;
+}
+
+export interface CanvasData {
+    nodes?: CanvasNode[];
+    edges?: unknown[];
+    [key: string]: unknown;
+}
+
+export function parseCanvas(text: string): CanvasData {
+    try {
+        const data = JSON.parse(text || '{}');
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) throw new Error();
+        return data as CanvasData;
+    } catch {
+        throw new Error('画布文件不是有效的 JSON');
+    }
+}
+
+export function findFileNodes(data: CanvasData): CanvasNode[] {
+    return (data.nodes ?? []).filter(node => node.type === 'file' && typeof node.file === 'string' && node.file);
+}
+
+// link 节点的地址; 上传后的附件以 link 节点留在画布中
+export function findLinkUrls(data: CanvasData): string[] {
+    return (data.nodes ?? [])
+        .filter(node => node.type === 'link' && typeof node.url === 'string' && node.url)
+        .map(node => node.url as string);
+}
+
+// 按 文件路径 → 远程地址 的映射把 file 节点改为 link 节点, 位置、尺寸和颜色保持不变;
+// Obsidian 保存画布时使用制表符缩进
+export function rewriteFileNodes(text: string, mappings: Record<string, string>): string {
+    const data = parseCanvas(text);
+    let changed = false;
+    findFileNodes(data).forEach(node => {
+        const url = mappings[node.file ?? ''];
+        if (!url) return;
+        node.type = 'link';
+        node.url = url;
+        delete node.file;
+        delete node.subpath;
+        changed = true;
+    });
+    return changed ? JSON.stringify(data, null, '\t') : text;
+}
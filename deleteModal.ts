@@ -0,0 +1,121 @@
+import { App, Modal, Setting, moment } from 'obsidian';
+import { HistoryEntry } from './uploadHistory';
+import { UploadProfile } from './profiles';
+import { formatBytes } from './format';
+
+// 删除单张远程图片前确认; otherNotes 为仍引用同一地址的其他笔记, 删除后这些笔记中的图片也会失效
+export class ConfirmDeleteModal extends Modal {
+    constructor(app: App, private url: string, private otherNotes: string[], private onConfirm: () => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('删除远程图片');
+        contentEl.createEl('p', { text: '将从服务器上删除这张图片, 并移除笔记中的图片链接。此操作无法撤销。' });
+        contentEl.createEl('p', { text: this.url, cls: 'upload-delete-url' });
+
+        if (this.otherNotes.length > 0) {
+            contentEl.createEl('p', {
+                text: `⚠️ 还有 ${this.otherNotes.length} 个笔记引用这张图片, 删除后其中的图片将无法显示:`,
+                cls: 'mod-warning'
+            });
+            const list = contentEl.createEl('ul');
+            this.otherNotes.forEach(path => list.createEl('li', { text: path }));
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('删除')
+                .setWarning()
+                .onClick(() => {
+                    this.close();
+                    this.onConfirm();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// 列出已不被任何笔记引用的上传图片, 勾选后批量删除
+export class UnreferencedUploadsModal extends Modal {
+    private selected: Set<HistoryEntry>;
+
+    constructor(app: App, private entries: HistoryEntry[], private profiles: UploadProfile[],
+                private onConfirm: (entries: HistoryEntry[]) => void) {
+        super(app);
+        this.selected = new Set(entries);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const totalSize = this.entries.reduce((sum, entry) => sum + entry.size, 0);
+
+        this.titleEl.setText('未被引用的上传图片');
+        contentEl.createEl('p', {
+            text: `${this.entries.length} 张图片 (${formatBytes(totalSize)}) 已不被任何笔记引用。勾选要从服务器上删除的图片, 此操作无法撤销。`,
+            cls: 'width-settings-desc'
+        });
+
+        const tableContainer = contentEl.createDiv('upload-cache-table');
+        const table = tableContainer.createEl('table');
+        const header = table.createEl('tr');
+        const toggleAll = header.createEl('th').createEl('input', { type: 'checkbox' });
+        toggleAll.checked = true;
+        ['远程地址', '配置', '大小', '上传时间'].forEach(text => header.createEl('th', { text }));
+
+        const checkboxes: HTMLInputElement[] = [];
+        this.entries.forEach(entry => {
+            const row = table.createEl('tr');
+            const checkbox = row.createEl('td').createEl('input', { type: 'checkbox' });
+            checkbox.checked = true;
+            checkbox.onchange = () => {
+                if (checkbox.checked) this.selected.add(entry);
+                else this.selected.delete(entry);
+                updateButton();
+            };
+            checkboxes.push(checkbox);
+
+            row.createEl('td').createEl('a', { text: entry.url, href: entry.url });
+            row.createEl('td', { text: this.profiles.find(p => p.id === entry.profileId)?.name ?? '(已删除)' });
+            row.createEl('td', { text: formatBytes(entry.size) });
+            row.createEl('td', { text: moment(entry.createdAt).format('YYYY-MM-DD HH:mm') });
+        });
+
+        toggleAll.onchange = () => {
+            this.selected = new Set(toggleAll.checked ? this.entries : []);
+            checkboxes.forEach(checkbox => checkbox.checked = toggleAll.checked);
+            updateButton();
+        };
+
+        let deleteButton: HTMLButtonElement;
+        const updateButton = () => {
+            deleteButton.setText(`删除所选 (${this.selected.size})`);
+            deleteButton.disabled = this.selected.size === 0;
+        };
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(button => {
+                deleteButton = button.buttonEl;
+                button
+                    .setWarning()
+                    .onClick(() => {
+                        this.close();
+                        this.onConfirm(this.entries.filter(entry => this.selected.has(entry)));
+                    });
+            });
+        updateButton();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,52 @@
+import { ImageLink, findImageLinks } from './imageLinks';
+import { TextEdit, applyEdits } from './textEdits';
+
+// 导出笔记时的图片写法: 标准 Markdown (去掉尺寸), 或带尺寸时使用 HTML <img width>
+export type ExportImageSyntax = 'markdown' | 'html';
+
+function escapeAttribute(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+// 本地路径中的空格和括号会截断标准 Markdown 链接
+function encodeDestination(link: ImageLink): string {
+    return link.syntax === 'wiki' ? encodeURI(link.url).replace(/\(/g, '%28').replace(/\)/g, '%29') : link.url;
+}
+
+function toImageTag(link: ImageLink, src: string): string {
+    const [width, height] = (link.size ?? '').split('x');
+    const attributes = [`src="${escapeAttribute(src)}"`, `alt="${escapeAttribute(link.alt)}"`];
+    if (link.title) attributes.push(`title="${escapeAttribute(link.title)}"`);
+    if (width) attributes.push(`width="${width}"`);
+    if (height) attributes.push(`height="${height}"`);
+    return `<img ${attributes.join(' ')}>`;
+}
+
+function toMarkdown(link: ImageLink, src: string): string {
+    const title = link.title ? ` "${link.title.replace(/"/g, '\\"')}"` : '';
+    const destination = /\s/.test(src) ? `<${src}>` : src;
+    return `![${link.alt}](${destination}${title})`;
+}
+
+// 把 Obsidian 特有的图片写法转为通用写法: ![[x.png|300]]、![alt|300](url) 和带尺寸的引用式图片;
+// 其他图片保持不变
+export function convertImagesForExport(content: string, syntax: ExportImageSyntax): string {
+    const edits: TextEdit[] = [];
+    findImageLinks(content).forEach(link => {
+        if (link.syntax === 'html') return;
+        if (link.syntax !== 'wiki' && !link.size) return;
+
+        const src = encodeDestination(link);
+        edits.push({
+            from: link.index,
+            to: link.index + link.originalMark.length,
+            original: link.originalMark,
+            text: syntax === 'html' && link.size ? toImageTag(link, src) : toMarkdown(link, src)
+        });
+    });
+    return applyEdits(content, edits);
+}
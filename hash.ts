@@ -0,0 +1,44 @@
+// 基于 Web Crypto 的哈希与编码工具
+
+const encoder = new TextEncoder();
+
+function toBytes(data: ArrayBuffer | string): ArrayBuffer {
+    if (typeof data !== 'string') return data;
+    const bytes = encoder.encode(data);
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+export function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+export async function sha256(data: ArrayBuffer | string): Promise<ArrayBuffer> {
+    return crypto.subtle.digest('SHA-256', toBytes(data));
+}
+
+export async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+    return toHex(await sha256(data));
+}
+
+export async function hmacSha256(key: ArrayBuffer | string, data: ArrayBuffer | string): Promise<ArrayBuffer> {
+    const cryptoKey = await crypto.subtle.importKey(
+        'raw', toBytes(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+    );
+    return crypto.subtle.sign('HMAC', cryptoKey, toBytes(data));
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    // 分块拼接, 避免大文件时参数过多导致栈溢出
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+    }
+    return btoa(binary);
+}
+
+export function stringToBase64(value: string): string {
+    return arrayBufferToBase64(toBytes(value));
+}
@@ -0,0 +1,145 @@
+import { ItemView, MarkdownView, Notice, TFile, WorkspaceLeaf, moment } from 'obsidian';
+import type ImageUploaderPlugin from './main';
+import { HistoryEntry } from './uploadHistory';
+import { formatBytes } from './format';
+
+export const UPLOAD_HISTORY_VIEW = 'image-uploader-history';
+
+// 一次最多显示的记录数, 更多的记录通过搜索查找
+const MAX_RENDERED = 200;
+
+// 上传记录: 缩略图、搜索、复制链接、插入到光标处、查找引用此图片的笔记
+export class UploadHistoryView extends ItemView {
+    private unsubscribe: (() => void) | null = null;
+    private query = '';
+    private listEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, private plugin: ImageUploaderPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return UPLOAD_HISTORY_VIEW;
+    }
+
+    getDisplayText(): string {
+        return '上传记录';
+    }
+
+    getIcon(): string {
+        return 'history';
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('upload-history-view');
+
+        const search = container.createEl('input', {
+            type: 'search',
+            placeholder: '搜索地址、来源、笔记或配置',
+            cls: 'upload-history-search'
+        });
+        search.value = this.query;
+        search.addEventListener('input', () => {
+            this.query = search.value;
+            this.renderList();
+        });
+
+        this.listEl = container.createDiv('upload-history-list');
+        this.unsubscribe = this.plugin.uploadHistory.onChange(() => this.renderList());
+        this.renderList();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    private getProfileName(profileId: string): string {
+        return this.plugin.settings.profiles.find(p => p.id === profileId)?.name ?? '(已删除)';
+    }
+
+    private renderList() {
+        this.listEl.empty();
+        const query = this.query.trim().toLowerCase();
+        const entries = this.plugin.uploadHistory.getAll().filter(entry => !query ||
+            [entry.url, entry.sourceUrl, entry.notePath, this.getProfileName(entry.profileId)]
+                .some(text => text.toLowerCase().includes(query)));
+
+        if (entries.length === 0) {
+            this.listEl.createEl('p', { text: query ? '没有匹配的记录' : '还没有上传记录', cls: 'upload-history-empty' });
+            return;
+        }
+        if (entries.length > MAX_RENDERED) {
+            this.listEl.createEl('p', {
+                text: `共 ${entries.length} 条记录, 只显示最近 ${MAX_RENDERED} 条`,
+                cls: 'upload-history-meta'
+            });
+        }
+
+        entries.slice(0, MAX_RENDERED).forEach(entry => this.renderEntry(entry));
+    }
+
+    private renderEntry(entry: HistoryEntry) {
+        const item = this.listEl.createDiv('upload-history-item');
+        item.createEl('img', { cls: 'upload-history-thumb', attr: { src: entry.url, loading: 'lazy' } });
+
+        const info = item.createDiv('upload-history-info');
+        info.createEl('a', { text: entry.url, href: entry.url, cls: 'upload-history-url' });
+        info.createDiv({
+            text: `${moment(entry.createdAt).format('YYYY-MM-DD HH:mm')} · ${formatBytes(entry.size)} · ${this.getProfileName(entry.profileId)}`,
+            cls: 'upload-history-meta'
+        });
+        info.createDiv({ text: `来源: ${entry.sourceUrl}`, cls: 'upload-history-meta' });
+        if (entry.notePath) {
+            const note = info.createDiv('upload-history-meta');
+            note.appendText('笔记: ');
+            note.createEl('a', { text: entry.notePath }).onclick = () => this.openFile(entry.notePath);
+        }
+
+        const actions = info.createDiv('upload-history-actions');
+        actions.createEl('button', { text: '复制链接' }).onclick = async () => {
+            await navigator.clipboard.writeText(entry.url);
+            new Notice('已复制图片地址');
+        };
+        actions.createEl('button', { text: '插入到光标处' }).onclick = () => this.insertAtCursor(entry);
+        const usages = info.createDiv('upload-history-usages');
+        actions.createEl('button', { text: '引用此图片的笔记' }).onclick = () => this.showUsages(entry, usages);
+    }
+
+    // 插入到最近使用的 Markdown 编辑器中
+    private insertAtCursor(entry: HistoryEntry) {
+        const view = this.app.workspace.getMostRecentLeaf()?.view;
+        if (!(view instanceof MarkdownView)) {
+            new Notice('请先打开一个笔记');
+            return;
+        }
+        view.editor.replaceSelection(`![](${entry.url})`);
+        this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+    }
+
+    private async showUsages(entry: HistoryEntry, container: HTMLElement) {
+        container.empty();
+        container.createSpan({ text: '正在查找...', cls: 'upload-history-meta' });
+        const notes = await this.plugin.findNotesUsingUrl(entry.url);
+        container.empty();
+        if (notes.length === 0) {
+            container.createSpan({ text: '没有笔记引用此图片', cls: 'upload-history-meta' });
+            return;
+        }
+        const list = container.createEl('ul');
+        notes.forEach(note => {
+            list.createEl('li').createEl('a', { text: note.path }).onclick = () => this.openFile(note.path);
+        });
+    }
+
+    private openFile(path: string) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            this.app.workspace.getLeaf(false).openFile(file);
+        } else {
+            new Notice(`文件不存在: ${path}`);
+        }
+    }
+}
@@ -0,0 +1,389 @@
+// 图片引用解析: 支持以下写法, 跳过代码块、行内代码和 HTML 注释中的内容
+//   ![alt](url)  ![alt](url "title")  ![alt](<url with spaces>)  ![alt|300](url)
+//   ![alt][ref]  ![alt][]  ![ref]  以及对应的 [ref]: url "title" 定义
+//   <img src="url" alt="alt" width="300">
+//   ![[photo.png]]  ![[photo.png|300]]
+
+export type ImageSyntax = 'markdown' | 'reference' | 'html' | 'wiki';
+
+export interface ImageLink {
+    syntax: ImageSyntax;
+    url: string;
+    // 整个图片标记的原文及其在文档中的起始位置
+    originalMark: string;
+    index: number;
+    // 地址在文档中的范围; 引用式图片指向定义行中的地址
+    urlStart: number;
+    urlEnd: number;
+    alt: string;
+    // Obsidian 尺寸后缀或 HTML width, 如 300 或 300x200
+    size?: string;
+    title?: string;
+    // 内部链接 "|" 之后的部分, 如 300 或图片说明
+    alias?: string;
+    // 引用式图片的标签
+    label?: string;
+    // 引用式图片的定义行原文及其起始位置
+    definitionMark?: string;
+    definitionIndex?: number;
+}
+
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'svg', 'avif'];
+
+const SIZE_REGEX = /^\d+(x\d+)?$/;
+
+interface ReferenceDefinition {
+    url: string;
+    urlStart: number;
+    urlEnd: number;
+    title?: string;
+    mark: string;
+    index: number;
+}
+
+export function isRemoteUrl(url: string): boolean {
+    return /^https?:\/\//i.test(url.trim());
+}
+
+function hasImageExtension(path: string): boolean {
+    const ext = path.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+    return !!ext && IMAGE_EXTENSIONS.includes(ext);
+}
+
+// 远程地址全部保留; 本地路径只处理图片文件, 排除 data: 等其他协议
+function isCandidateUrl(url: string): boolean {
+    if (!url) return false;
+    if (isRemoteUrl(url)) return true;
+    return !/^[a-z][a-z0-9+.-]*:/i.test(url) && hasImageExtension(url);
+}
+
+function normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// 代码块、行内代码和 HTML 注释的范围 [start, end)
+export function findIgnoredRanges(text: string): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+
+    // 围栏代码块
+    const fenceRegex = /^ {0,3}(`{3,}|~{3,})[^\n]*$/gm;
+    let match: RegExpExecArray | null;
+    while ((match = fenceRegex.exec(text)) !== null) {
+        const fence = match[1];
+        const start = match.index;
+        const closeRegex = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`, 'gm');
+        closeRegex.lastIndex = start + match[0].length;
+        const close = closeRegex.exec(text);
+        const end = close ? close.index + close[0].length : text.length;
+        ranges.push([start, end]);
+        fenceRegex.lastIndex = end;
+    }
+
+    const inRanges = (pos: number) => ranges.some(([a, b]) => pos >= a && pos < b);
+    const extra: Array<[number, number]> = [];
+
+    // HTML 注释
+    const commentRegex = /<!--[\s\S]*?(-->|$)/g;
+    while ((match = commentRegex.exec(text)) !== null) {
+        if (!inRanges(match.index)) extra.push([match.index, match.index + match[0].length]);
+    }
+
+    // 行内代码: 反引号数量相同的一对
+    const tickRegex = /`+/g;
+    while ((match = tickRegex.exec(text)) !== null) {
+        const start = match.index;
+        if (inRanges(start) || extra.some(([a, b]) => start >= a && start < b)) continue;
+        const ticks = match[0];
+        let close = text.indexOf(ticks, start + ticks.length);
+        while (close !== -1 && (text[close + ticks.length] === '`' || text[close - 1] === '`')) {
+            close = text.indexOf(ticks, close + 1);
+        }
+        if (close === -1) continue;
+        extra.push([start, close + ticks.length]);
+        tickRegex.lastIndex = close + ticks.length;
+    }
+
+    return ranges.concat(extra).sort((a, b) => a[0] - b[0]);
+}
+
+function findReferenceDefinitions(text: string, ignored: Array<[number, number]>): Map<string, ReferenceDefinition> {
+    const definitions = new Map<string, ReferenceDefinition>();
+    const regex = /^ {0,3}\[([^\]\n]+)\]:[ \t]*(<[^>\n]*>|\S+)(?:[ \t]+("[^"\n]*"|'[^'\n]*'|\([^)\n]*\)))?[ \t]*$/gm;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        const start = match.index;
+        if (ignored.some(([a, b]) => start >= a && start < b)) continue;
+        const label = normalizeLabel(match[1]);
+        if (definitions.has(label)) continue;
+
+        const rawUrl = match[2];
+        const rawStart = start + match[0].indexOf(rawUrl, match[0].indexOf(']:') + 2);
+        const angle = rawUrl.startsWith('<');
+        const url = angle ? rawUrl.substring(1, rawUrl.length - 1) : rawUrl;
+        const urlStart = angle ? rawStart + 1 : rawStart;
+        definitions.set(label, {
+            url,
+            urlStart,
+            urlEnd: urlStart + url.length,
+            title: match[3] ? match[3].substring(1, match[3].length - 1) : undefined,
+            mark: match[0],
+            index: start
+        });
+    }
+    return definitions;
+}
+
+// 从 "[" 开始找到匹配的 "]", 支持嵌套和转义, 返回 "]" 的位置
+function findClosingBracket(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === '[') {
+            depth++;
+        } else if (ch === ']') {
+            depth--;
+            if (depth === 0) return i;
+        } else if (ch === '\n' && text[i + 1] === '\n') {
+            return -1;
+        }
+    }
+    return -1;
+}
+
+// 解析 "(" 之后的目标地址和标题, 返回结束位置 (")" 之后)
+function parseInlineDestination(text: string, open: number):
+    { url: string, urlStart: number, urlEnd: number, title?: string, end: number } | null {
+    let i = open + 1;
+    while (text[i] === ' ' || text[i] === '\t') i++;
+
+    let urlStart: number;
+    let urlEnd: number;
+    if (text[i] === '<') {
+        urlStart = i + 1;
+        const close = text.indexOf('>', urlStart);
+        if (close === -1 || text.substring(urlStart, close).includes('\n')) return null;
+        urlEnd = close;
+        i = close + 1;
+    } else {
+        // 地址中允许成对的括号, 如 https://en.wikipedia.org/wiki/Foo_(bar).png
+        urlStart = i;
+        let depth = 0;
+        while (i < text.length) {
+            const ch = text[i];
+            if (ch === '\\' && i + 1 < text.length) {
+                i += 2;
+                continue;
+            }
+            if (/\s/.test(ch)) break;
+            if (ch === '(') depth++;
+            if (ch === ')') {
+                if (depth === 0) break;
+                depth--;
+            }
+            i++;
+        }
+        urlEnd = i;
+    }
+
+    while (text[i] === ' ' || text[i] === '\t') i++;
+
+    let title: string | undefined;
+    const quote = text[i];
+    if (quote === '"' || quote === "'" || quote === '(') {
+        const closeQuote = quote === '(' ? ')' : quote;
+        const close = text.indexOf(closeQuote, i + 1);
+        if (close === -1) return null;
+        title = text.substring(i + 1, close);
+        i = close + 1;
+        while (text[i] === ' ' || text[i] === '\t') i++;
+    }
+
+    if (text[i] !== ')') return null;
+    return { url: text.substring(urlStart, urlEnd), urlStart, urlEnd, title, end: i + 1 };
+}
+
+// alt 中的 Obsidian 尺寸后缀: "alt|300" 或 "|300x200"
+function splitAltSize(alt: string): { alt: string, size?: string } {
+    const bar = alt.lastIndexOf('|');
+    if (bar !== -1 && SIZE_REGEX.test(alt.substring(bar + 1).trim())) {
+        return { alt: alt.substring(0, bar), size: alt.substring(bar + 1).trim() };
+    }
+    return { alt };
+}
+
+function getAttribute(tag: string, name: string): { value: string, offset: number } | null {
+    const regex = new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i');
+    const match = regex.exec(tag);
+    if (!match) return null;
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    const quoted = match[2] !== undefined || match[3] !== undefined;
+    const valueOffset = match.index + match[0].length - value.length - (quoted ? 1 : 0);
+    return { value, offset: valueOffset };
+}
+
+function parseHtmlImages(text: string, ignored: Array<[number, number]>): ImageLink[] {
+    const links: ImageLink[] = [];
+    const regex = /<img\b[^>]*>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        const start = match.index;
+        if (ignored.some(([a, b]) => start >= a && start < b)) continue;
+        const tag = match[0];
+        const src = getAttribute(tag, 'src');
+        if (!src || !isCandidateUrl(src.value.trim())) continue;
+        const width = getAttribute(tag, 'width')?.value;
+        const height = getAttribute(tag, 'height')?.value;
+        links.push({
+            syntax: 'html',
+            url: src.value,
+            originalMark: tag,
+            index: start,
+            urlStart: start + src.offset,
+            urlEnd: start + src.offset + src.value.length,
+            alt: getAttribute(tag, 'alt')?.value ?? '',
+            size: width ? (height ? `${width}x${height}` : width) : undefined,
+            title: getAttribute(tag, 'title')?.value
+        });
+    }
+    return links;
+}
+
+// 查找文本中的所有图片引用, 按出现位置排序
+export function findImageLinks(text: string): ImageLink[] {
+    const ignored = findIgnoredRanges(text);
+    const isIgnored = (pos: number) => ignored.some(([a, b]) => pos >= a && pos < b);
+    const definitions = findReferenceDefinitions(text, ignored);
+    const links: ImageLink[] = parseHtmlImages(text, ignored);
+
+    let pos = text.indexOf('![');
+    while (pos !== -1) {
+        let next = pos + 2;
+        if (!isIgnored(pos) && text[pos - 1] !== '\\') {
+            const link = text[pos + 2] === '['
+                ? parseWikiImage(text, pos)
+                : parseMarkdownImage(text, pos, definitions);
+            if (link) {
+                links.push(link);
+                next = link.index + link.originalMark.length;
+            }
+        }
+        pos = text.indexOf('![', next);
+    }
+
+    return links.sort((a, b) => a.index - b.index);
+}
+
+function parseWikiImage(text: string, start: number): ImageLink | null {
+    const close = text.indexOf(']]', start + 3);
+    if (close === -1) return null;
+    const inner = text.substring(start + 3, close);
+    if (inner.includes('\n') || inner.includes('[')) return null;
+
+    const bar = inner.indexOf('|');
+    const target = (bar === -1 ? inner : inner.substring(0, bar));
+    const url = target.split('#')[0].trim();
+    if (!hasImageExtension(url)) return null;
+
+    const alias = bar === -1 ? undefined : inner.substring(bar + 1).trim();
+    const urlStart = start + 3 + target.indexOf(url);
+    return {
+        syntax: 'wiki',
+        url,
+        originalMark: text.substring(start, close + 2),
+        index: start,
+        urlStart,
+        urlEnd: urlStart + url.length,
+        alt: alias && !SIZE_REGEX.test(alias) ? alias : '',
+        size: alias && SIZE_REGEX.test(alias) ? alias : undefined,
+        alias
+    };
+}
+
+function parseMarkdownImage(text: string, start: number, definitions: Map<string, ReferenceDefinition>): ImageLink | null {
+    const altClose = findClosingBracket(text, start + 1);
+    if (altClose === -1) return null;
+    const rawAlt = text.substring(start + 2, altClose);
+    const { alt, size } = splitAltSize(rawAlt);
+
+    // 行内写法 ![alt](url "title")
+    if (text[altClose + 1] === '(') {
+        const dest = parseInlineDestination(text, altClose + 1);
+        if (!dest || !isCandidateUrl(dest.url.trim())) return null;
+        return {
+            syntax: 'markdown',
+            url: dest.url,
+            originalMark: text.substring(start, dest.end),
+            index: start,
+            urlStart: dest.urlStart,
+            urlEnd: dest.urlEnd,
+            alt,
+            size,
+            title: dest.title
+        };
+    }
+
+    // 引用式写法 ![alt][ref] / ![alt][] / ![ref]
+    let label = rawAlt;
+    let end = altClose + 1;
+    if (text[altClose + 1] === '[') {
+        const labelClose = text.indexOf(']', altClose + 2);
+        if (labelClose === -1) return null;
+        const explicit = text.substring(altClose + 2, labelClose);
+        if (explicit.trim()) label = explicit;
+        end = labelClose + 1;
+    }
+    const definition = definitions.get(normalizeLabel(label));
+    if (!definition || !isCandidateUrl(definition.url.trim())) return null;
+    return {
+        syntax: 'reference',
+        url: definition.url,
+        originalMark: text.substring(start, end),
+        index: start,
+        urlStart: definition.urlStart,
+        urlEnd: definition.urlEnd,
+        alt,
+        size,
+        title: definition.title,
+        label: normalizeLabel(label),
+        definitionMark: definition.mark,
+        definitionIndex: definition.index
+    };
+}
+
+// 本地链接转换为 vault 链接路径: 解码 %20 等, 去掉 #子路径
+export function getLinkPath(link: ImageLink): string {
+    let path = link.url.trim();
+    if (link.syntax !== 'wiki') {
+        try {
+            path = decodeURI(path);
+        } catch {
+            // 保留原始路径
+        }
+    }
+    return path.split('#')[0];
+}
+
+// 把图片地址替换为远程地址的修改: 只替换地址部分, 保留原有写法、标题和尺寸;
+// 修改以整个图片标记 (引用式图片为定义行) 为原文, 重新定位时不会匹配到其他位置的相同地址;
+// 内部链接无法指向远程地址, 转换为标准 Markdown 链接
+export function buildRemoteEdit(link: ImageLink, newUrl: string): { from: number, to: number, original: string, text: string } {
+    if (link.syntax === 'wiki') {
+        const alt = link.size ? `${link.alt}|${link.size}` : link.alt;
+        return {
+            from: link.index,
+            to: link.index + link.originalMark.length,
+            original: link.originalMark,
+            text: `![${alt}](${newUrl})`
+        };
+    }
+    const mark = link.definitionMark ?? link.originalMark;
+    const index = link.definitionIndex ?? link.index;
+    return {
+        from: index,
+        to: index + mark.length,
+        original: mark,
+        text: mark.substring(0, link.urlStart - index) + newUrl + mark.substring(link.urlEnd - index)
+    };
+}
@@ -0,0 +1,147 @@
+// 上传前的图片处理: 缩小尺寸、重新编码、去除 EXIF/GPS 元数据、添加水印
+
+export type OutputFormat = 'original' | 'webp' | 'jpeg';
+export type WatermarkPosition = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left' | 'center';
+
+export interface ProcessingOptions {
+    maxWidth: number;
+    format: OutputFormat;
+    // 0-100
+    quality: number;
+    stripMetadata: boolean;
+    watermarkText: string;
+    watermarkPosition: WatermarkPosition;
+}
+
+export interface ProcessedImage {
+    file: File;
+    originalSize: number;
+    processedSize: number;
+}
+
+// 动图和矢量图重新编码会丢失内容, 保持原样
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+const FORMAT_MIME: Record<Exclude<OutputFormat, 'original'>, string> = {
+    webp: 'image/webp',
+    jpeg: 'image/jpeg'
+};
+
+const MIME_EXTENSION: Record<string, string> = {
+    'image/webp': 'webp',
+    'image/jpeg': 'jpg',
+    'image/png': 'png'
+};
+
+// 当前 TypeScript 版本的 DOM 类型中没有 OffscreenCanvas, 只声明用到的部分
+interface OffscreenCanvasLike {
+    getContext(type: '2d'): CanvasRenderingContext2D | null;
+    convertToBlob(options: { type: string, quality: number }): Promise<Blob>;
+}
+declare const OffscreenCanvas: { new(width: number, height: number): OffscreenCanvasLike } | undefined;
+
+type AnyCanvas = OffscreenCanvasLike | HTMLCanvasElement;
+
+function createCanvas(width: number, height: number): AnyCanvas {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        return new OffscreenCanvas(width, height);
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+async function canvasToBlob(canvas: AnyCanvas, type: string, quality: number): Promise<Blob> {
+    if ('convertToBlob' in canvas) {
+        return canvas.convertToBlob({ type, quality });
+    }
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob: Blob | null) => blob ? resolve(blob) : reject(new Error('图片编码失败')), type, quality);
+    });
+}
+
+function drawWatermark(ctx: CanvasRenderingContext2D, width: number, height: number, text: string, position: WatermarkPosition) {
+    const fontSize = Math.max(12, Math.round(width / 40));
+    const margin = Math.round(fontSize * 0.8);
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = Math.round(fontSize / 4);
+
+    let x = width / 2;
+    let y = height / 2;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    if (position !== 'center') {
+        const [vertical, horizontal] = position.split('-');
+        ctx.textAlign = horizontal === 'left' ? 'left' : 'right';
+        ctx.textBaseline = vertical === 'top' ? 'top' : 'bottom';
+        x = horizontal === 'left' ? margin : width - margin;
+        y = vertical === 'top' ? margin : height - margin;
+    }
+    ctx.fillText(text, x, y);
+}
+
+function replaceExtension(name: string, ext: string): string {
+    const dot = name.lastIndexOf('.');
+    return (dot > 0 ? name.substring(0, dot) : name) + '.' + ext;
+}
+
+// 处理图片; 不需要处理、无法解码或只换格式却反而更大时返回原文件
+export async function processImage(file: File, options: ProcessingOptions): Promise<ProcessedImage> {
+    const unchanged = { file, originalSize: file.size, processedSize: file.size };
+    if (PASSTHROUGH_TYPES.includes(file.type) || !file.type.startsWith('image/')) return unchanged;
+
+    // HEIC、部分 TIFF 和损坏的文件无法解码, 直接上传原文件
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file);
+    } catch (error) {
+        console.warn(`无法解码图片, 上传原文件: ${file.name}`, error);
+        return unchanged;
+    }
+    try {
+        const scale = options.maxWidth > 0 && bitmap.width > options.maxWidth ? options.maxWidth / bitmap.width : 1;
+        const targetType = options.format === 'original' ? file.type : FORMAT_MIME[options.format];
+        const watermark = options.watermarkText.trim();
+        // JPEG 的 EXIF 和 PNG 的 eXIf / tEXt / iTXt 块都可能带有位置信息, 重新编码即可去除
+        const stripNeeded = options.stripMetadata;
+
+        if (scale === 1 && targetType === file.type && !watermark && !stripNeeded) return unchanged;
+
+        const width = Math.round(bitmap.width * scale);
+        const height = Math.round(bitmap.height * scale);
+        const canvas = createCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('无法创建画布');
+
+        // JPEG 不支持透明, 先填充白色背景
+        if (targetType === 'image/jpeg') {
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        if (watermark) drawWatermark(ctx, width, height, watermark, options.watermarkPosition);
+
+        const quality = Math.min(100, Math.max(1, options.quality)) / 100;
+        const blob = await canvasToBlob(canvas, targetType, quality);
+
+        // 浏览器不支持的编码格式会回退为 PNG
+        const outputType = blob.type || targetType;
+
+        // 只是换格式却变大时保留原图; 需要缩小尺寸、去除元数据或加水印时始终使用处理结果
+        if (blob.size >= file.size && scale === 1 && !watermark && !stripNeeded) return unchanged;
+
+        const ext = MIME_EXTENSION[outputType];
+        const name = ext && outputType !== file.type ? replaceExtension(file.name, ext) : file.name;
+        return {
+            file: new File([blob], name, { type: outputType }),
+            originalSize: file.size,
+            processedSize: blob.size
+        };
+    } finally {
+        bitmap.close();
+    }
+}
@@ -0,0 +1,30 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+
+// 插件目录下的 JSON 文件, 用于保存不属于设置的运行时数据 (任务进度、缓存等)
+export class JsonStore<T> {
+    private path: string;
+
+    constructor(private adapter: DataAdapter, pluginDir: string, fileName: string) {
+        this.path = normalizePath(`${pluginDir}/${fileName}`);
+    }
+
+    async load(): Promise<T | null> {
+        try {
+            if (!(await this.adapter.exists(this.path))) return null;
+            return JSON.parse(await this.adapter.read(this.path)) as T;
+        } catch (error) {
+            console.error(`读取 ${this.path} 失败:`, error);
+            return null;
+        }
+    }
+
+    async save(data: T) {
+        await this.adapter.write(this.path, JSON.stringify(data, null, 2));
+    }
+
+    async clear() {
+        if (await this.adapter.exists(this.path)) {
+            await this.adapter.remove(this.path);
+        }
+    }
+}
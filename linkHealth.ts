@@ -0,0 +1,141 @@
+import { moment } from 'obsidian';
+import { HttpClient, getHeader } from './request';
+
+// 图片链接检查: 逐个请求库中引用的远程图片, 按主机和笔记汇总失效和响应缓慢的链接
+
+export type LinkHealth = 'ok' | 'broken' | 'slow';
+
+export interface LinkCheckResult {
+    url: string;
+    health: LinkHealth;
+    status?: number;
+    durationMs: number;
+    error?: string;
+    // 引用该图片的笔记路径
+    notes: string[];
+}
+
+// 报告中的修复操作: 重新上传, 或下载到库中并改为本地链接
+export type RepairMode = 'reupload' | 'download';
+
+export interface HealthReportOptions {
+    // 生成修复操作的链接
+    actionLink(mode: RepairMode, url: string): string;
+    // 图片是否还有可用的副本 (库中的原始附件, 或远程地址仍可访问)
+    hasCopy(result: LinkCheckResult): boolean;
+}
+
+const HEALTH_LABEL: Record<LinkHealth, string> = {
+    ok: '✅ 正常',
+    broken: '❌ 失效',
+    slow: '🐢 缓慢'
+};
+
+// 不支持 HEAD 的服务器通常返回这些状态码, 改用 GET 重新检查
+const HEAD_UNSUPPORTED = [403, 405, 501];
+
+// 最后一次请求的耗时; 限速等待、重试间隔和 HEAD 失败后的 GET 不计入
+function lastDuration(http: HttpClient, started: number): number {
+    return http.attempts[http.attempts.length - 1]?.durationMs ?? Date.now() - started;
+}
+
+// 先发送 HEAD 请求, 不支持时改用 GET; 4xx/5xx、网络错误和非图片内容视为失效;
+// requestUrl 会自动跟随重定向, 检查的是最终地址的响应
+export async function checkLink(url: string, http: HttpClient, slowMs: number): Promise<Omit<LinkCheckResult, 'notes'>> {
+    const started = Date.now();
+    try {
+        let response = await http.request({ url, method: 'HEAD' });
+        if (HEAD_UNSUPPORTED.includes(response.status)) {
+            response = await http.request({ url, method: 'GET', headers: { 'Accept': 'image/*' } });
+        }
+        const durationMs = lastDuration(http, started);
+        const { status } = response;
+
+        if (status >= 400) {
+            return { url, health: 'broken', status, durationMs, error: `HTTP ${status}` };
+        }
+        // 图床删除图片后常返回 200 的 HTML 页面
+        const contentType = getHeader(response.headers, 'content-type')?.split(';')[0].trim().toLowerCase();
+        if (contentType && !contentType.startsWith('image/') && contentType !== 'application/octet-stream') {
+            return { url, health: 'broken', status, durationMs, error: `不是图片 (${contentType})` };
+        }
+        return { url, health: durationMs > slowMs ? 'slow' : 'ok', status, durationMs };
+    } catch (error) {
+        return { url, health: 'broken', durationMs: lastDuration(http, started), error: error.message || '未知错误' };
+    }
+}
+
+function getHost(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return url;
+    }
+}
+
+function describeResult(result: LinkCheckResult): string {
+    const details = [HEALTH_LABEL[result.health]];
+    if (result.error) details.push(result.error);
+    else if (result.status) details.push(`HTTP ${result.status}`);
+    details.push(`${(result.durationMs / 1000).toFixed(1)}s`);
+    return details.join(' · ');
+}
+
+// 生成报告笔记的内容, 只列出有问题的链接
+export function buildHealthReport(results: LinkCheckResult[], options: HealthReportOptions): string {
+    const problems = results.filter(result => result.health !== 'ok');
+    const count = (health: LinkHealth) => results.filter(result => result.health === health).length;
+    const notes = new Set(results.flatMap(result => result.notes));
+
+    const lines = [
+        '# 图片链接检查报告',
+        '',
+        `- 检查时间: ${moment().format('YYYY-MM-DD HH:mm:ss')}`,
+        `- 链接: ${results.length} 个, 来自 ${notes.size} 个笔记`,
+        `- 结果: ${HEALTH_LABEL.ok} ${count('ok')}, ${HEALTH_LABEL.broken} ${count('broken')}, ${HEALTH_LABEL.slow} ${count('slow')}`,
+        ''
+    ];
+
+    if (problems.length === 0) {
+        lines.push('所有图片链接都正常。', '');
+        return lines.join('\n');
+    }
+
+    // 按主机汇总, 有问题的主机排在前面
+    const hosts = new Map<string, LinkCheckResult[]>();
+    results.forEach(result => {
+        const host = getHost(result.url);
+        hosts.set(host, [...(hosts.get(host) ?? []), result]);
+    });
+    const hostRows = Array.from(hosts.entries())
+        .map(([host, items]) => ({
+            host,
+            total: items.length,
+            broken: items.filter(item => item.health === 'broken').length,
+            slow: items.filter(item => item.health === 'slow').length
+        }))
+        .filter(row => row.broken + row.slow > 0)
+        .sort((a, b) => (b.broken + b.slow) - (a.broken + a.slow));
+
+    lines.push('## 按主机', '', '| 主机 | 链接 | ❌ | 🐢 |', '| --- | --- | --- | --- |');
+    hostRows.forEach(row => lines.push(`| ${row.host} | ${row.total} | ${row.broken} | ${row.slow} |`));
+    lines.push('');
+
+    // 按笔记列出有问题的链接和修复操作; 同一链接被多个笔记引用时, 修复会改写所有笔记
+    const byNote = new Map<string, LinkCheckResult[]>();
+    problems.forEach(result => result.notes.forEach(note => byNote.set(note, [...(byNote.get(note) ?? []), result])));
+
+    lines.push('## 按笔记', '');
+    Array.from(byNote.keys()).sort().forEach(note => {
+        lines.push(`### [[${note}]]`, '');
+        byNote.get(note)?.forEach(result => {
+            const actions = options.hasCopy(result)
+                ? ` · [重新上传](${options.actionLink('reupload', result.url)}) · [下载并改为本地链接](${options.actionLink('download', result.url)})`
+                : ' · 没有可用的副本';
+            lines.push(`- \`${result.url}\`: ${describeResult(result)}${actions}`);
+        });
+        lines.push('');
+    });
+
+    return lines.join('\n');
+}
@@ -1,50 +1,234 @@
-import { App, Editor, MarkdownView, Notice, Plugin, PluginSettingTab, Setting, requestUrl, Menu } from 'obsidian';
+import { App, Editor, MarkdownView, MarkdownFileInfo, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, Menu, moment, normalizePath } from 'obsidian';
+import type { EditorView } from '@codemirror/view';
 import { ImageUploaderSettingTab } from './settings';
+import { PLACEHOLDER_API_URL, ProfileRule, UploadProfile, createProfile, normalizeProfile, resolveProfile } from './profiles';
+import { createUploader } from './uploaders';
+import { IMAGE_EXTENSIONS, ImageLink, buildRemoteEdit, findImageLinks, getLinkPath, isRemoteUrl } from './imageLinks';
+import { JsonStore } from './jsonStore';
+import { BatchJobRunner, BatchJobState } from './batchJob';
+import { CacheData, UploadCache } from './uploadCache';
+import { UploadCacheModal } from './cacheModal';
+import { sha256Hex } from './hash';
+import { OutputFormat, ProcessingOptions, WatermarkPosition, processImage } from './imageProcessor';
+import { formatBytes } from './format';
+import { HttpClient, RequestAttempt, RetryBudget } from './request';
+import { createTemplateContext } from './requestTemplate';
+import { AUTH_SECRETS, AuthManager } from './auth';
+import { SecretStore } from './secrets';
+import { LinkCheckResult, RepairMode, buildHealthReport, checkLink } from './linkHealth';
+import { ExportImageSyntax, convertImagesForExport } from './exportNote';
+import { findFileNodes, findLinkUrls, parseCanvas, rewriteFileNodes } from './canvas';
+import { AttachmentCategory, AttachmentRoute, buildAttachmentLink, canUploadCategory, checkRouteSize, findRoute,
+    getAttachmentCategory, getMimeTypeByName } from './attachments';
+import { HostRateLimiter, runPool } from './pool';
+import { TextEdit, applyEdits, applyEditsToEditor, relocateEdits } from './textEdits';
+import { QueueData, QueueItem, UploadQueue } from './uploadQueue';
+import { UPLOAD_QUEUE_VIEW, UploadQueueView } from './queueView';
+import { UPLOAD_HISTORY_VIEW, UploadHistoryView } from './historyView';
+import { HistoryData, HistoryEntry, UploadHistory } from './uploadHistory';
+import { ConfirmDeleteModal, UnreferencedUploadsModal } from './deleteModal';
+import { PlannedAction, PlannedImage, UploadPreviewModal } from './previewModal';
+import { MigrationModal, MigrationPlan, MigrationResult } from './migration';
+import { RuleCheck, UploadRule, UploadRuleMode, checkExtension, checkNote, checkSize, checkUrl, hostMatches, migrateBlacklist } from './uploadRules';
 
-interface ImageUploaderSettings {
-    apiUrl: string;
-    method: string;
-    jsonPath: string;
-    blacklistDomains: string[];
+export interface ImageUploaderSettings {
+    profiles: UploadProfile[];
+    profileRules: ProfileRule[];
+    defaultProfileId: string;
+    uploadRuleMode: UploadRuleMode;
+    uploadRules: UploadRule[];
+    // 按附件分类选择上传配置和大小上限
+    attachmentRoutes: AttachmentRoute[];
     autoUploadOnPaste: boolean;
-    customHeaders: string[];
+    autoUploadOnDrop: boolean;
+    previewBeforeUpload: boolean;
+    enableUploadCache: boolean;
+    localFileAction: LocalFileAction;
+    processImages: boolean;
+    maxImageWidth: number;
+    outputFormat: OutputFormat;
+    outputQuality: number;
+    stripMetadata: boolean;
+    watermarkText: string;
+    watermarkPosition: WatermarkPosition;
+    requestTimeout: number;
+    maxRetries: number;
+    retryBaseDelay: number;
+    retryBudget: number;
+    maxConcurrent: number;
+    requestsPerSecond: number;
+    // 离线队列自动重试间隔 (分钟)
+    queueRetryInterval: number;
+    // 链接检查中超过该时间 (秒) 的响应视为缓慢
+    slowLinkThreshold: number;
+    // 导出笔记副本时的图片写法和导出文件夹
+    exportImageSyntax: ExportImageSyntax;
+    exportFolder: string;
+    // 批量任务和链接检查报告所在的文件夹
+    reportFolder: string;
     defaultWidthLarge: number;
     defaultWidthMedium: number;
     defaultWidthSmall: number;
     enableAutoWidth: boolean;
 }
 
+// 本地附件上传后的处理方式
+export type LocalFileAction = 'keep' | 'trash' | 'delete';
+
 // 进度状态接口
-interface UploadProgress {
+export interface UploadProgress {
     total: number;
     current: number;
     success: number;
     failed: number;
     skipped: number;
     blacklisted: number;
-    errors: Array<{url: string, error: string}>;
+    // 图片处理节省的字节数
+    savedBytes: number;
+    errors: Array<{url: string, error: string, attempts?: RequestAttempt[]}>;
+}
+
+export type UploadItemStatus = 'success' | 'failed' | 'skipped' | 'blacklisted';
+
+// 单张图片的处理结果, 用于预览窗口中的结果表
+export interface UploadItemResult {
+    url: string;
+    status: UploadItemStatus;
+    newUrl?: string;
+    error?: string;
+    attempts?: RequestAttempt[];
+}
+
+// 上传结果: 实际上传的文件可能是处理后的图片
+export interface UploadedImage {
+    url: string;
+    file: File;
+    savedBytes: number;
+}
+
+// 旧版本的单接口设置, 加载时迁移为默认上传配置
+interface LegacyApiSettings {
+    blacklistDomains?: string[];
+    apiUrl?: string;
+    method?: string;
+    jsonPath?: string;
+    customHeaders?: string[];
 }
 
 const DEFAULT_SETTINGS: ImageUploaderSettings = {
-    apiUrl: 'http://your-api.com/upload',
-    method: 'POST',
-    jsonPath: 'data.url',
-    blacklistDomains: [],
+    profiles: [],
+    profileRules: [],
+    defaultProfileId: '',
+    uploadRuleMode: 'blocklist',
+    uploadRules: [{ type: 'frontmatter', value: 'image-upload=false' }],
+    attachmentRoutes: [],
     autoUploadOnPaste: true,
-    customHeaders: [],
+    autoUploadOnDrop: true,
+    previewBeforeUpload: true,
+    enableUploadCache: true,
+    localFileAction: 'keep',
+    processImages: false,
+    maxImageWidth: 1920,
+    outputFormat: 'original',
+    outputQuality: 85,
+    stripMetadata: true,
+    watermarkText: '',
+    watermarkPosition: 'bottom-right',
+    requestTimeout: 30,
+    maxRetries: 3,
+    retryBaseDelay: 1000,
+    retryBudget: 20,
+    maxConcurrent: 3,
+    requestsPerSecond: 5,
+    queueRetryInterval: 5,
+    slowLinkThreshold: 5,
+    exportImageSyntax: 'html',
+    exportFolder: 'Export',
+    reportFolder: 'Image Reports',
     defaultWidthLarge: 800,
     defaultWidthMedium: 600,
     defaultWidthSmall: 400,
     enableAutoWidth: true
 }
 
+// 链接检查报告中修复操作使用的 obsidian:// 动作名
+const REPAIR_PROTOCOL_ACTION = 'image-uploader-repair';
+
 export default class ImageUploaderPlugin extends Plugin {
     settings: ImageUploaderSettings;
     progressNotice: Notice | null = null;
+    batchJob: BatchJobRunner;
+    uploadCache: UploadCache;
+    uploadQueue: UploadQueue;
+    uploadHistory: UploadHistory;
+    // 认证密钥保存在本机, 不写入 data.json
+    secrets: SecretStore;
+    auth: AuthManager;
+    private lastQueueFlush = 0;
+    // 插件卸载后长时间运行的任务不再开始新的请求
+    private unloaded = false;
+    // 所有请求共享的按主机限速器
+    rateLimiter = new HostRateLimiter(() => this.settings.requestsPerSecond);
+
+    onunload() {
+        this.unloaded = true;
+        this.batchJob?.stop();
+        this.uploadQueue?.stop();
+        if (this.progressNotice) {
+            this.progressNotice.hide();
+            this.progressNotice = null;
+        }
+    }
 
     async onload() {
+        this.secrets = new SecretStore(this.app, this.manifest.id);
+        this.auth = new AuthManager(this.secrets);
         await this.loadSettings();
 
+        // 上传缓存: 相同内容的图片直接复用已上传的地址
+        this.uploadCache = new UploadCache(
+            new JsonStore<CacheData>(this.app.vault.adapter, this.manifest.dir ?? '', 'upload-cache.json'));
+        await this.uploadCache.load();
+
+        // 批量上传任务, 进度保存在插件目录下, 重新加载后继续
+        this.batchJob = new BatchJobRunner(this,
+            new JsonStore<BatchJobState>(this.app.vault.adapter, this.manifest.dir ?? '', 'batch-job.json'));
+        this.app.workspace.onLayoutReady(() => this.batchJob.restore());
+
+        // 上传记录
+        this.uploadHistory = new UploadHistory(
+            new JsonStore<HistoryData>(this.app.vault.adapter, this.manifest.dir ?? '', 'upload-history.json'));
+        await this.uploadHistory.load();
+        this.registerView(UPLOAD_HISTORY_VIEW, leaf => new UploadHistoryView(leaf, this));
+
+        // 离线上传队列: 定时和恢复联网时重新上传
+        this.uploadQueue = new UploadQueue(this,
+            new JsonStore<QueueData>(this.app.vault.adapter, this.manifest.dir ?? '', 'upload-queue.json'));
+        await this.uploadQueue.load();
+        this.registerView(UPLOAD_QUEUE_VIEW, leaf => new UploadQueueView(leaf, this.uploadQueue));
+        this.app.workspace.onLayoutReady(() => this.flushUploadQueue());
+        this.registerDomEvent(window, 'online', () => this.flushUploadQueue());
+        // 每分钟检查一次, 修改重试间隔后无需重新加载
+        this.registerInterval(window.setInterval(() => {
+            if (Date.now() - this.lastQueueFlush >= Math.max(1, this.settings.queueRetryInterval) * 60 * 1000) {
+                this.flushUploadQueue();
+            }
+        }, 60 * 1000));
+        this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+            await this.uploadQueue.rename(oldPath, file.path);
+            await this.uploadHistory.renameNote(oldPath, file.path);
+        }));
+
+        const statusBar = this.addStatusBarItem();
+        statusBar.addClass('mod-clickable');
+        statusBar.onClickEvent(() => this.openSidebarView(UPLOAD_QUEUE_VIEW));
+        const updateStatusBar = () => {
+            statusBar.setText(`⏳ ${this.uploadQueue.size} 张图片待上传`);
+            statusBar.toggle(this.uploadQueue.size > 0);
+        };
+        this.register(this.uploadQueue.onChange(updateStatusBar));
+        updateStatusBar();
+
         // Register settings tab
         this.addSettingTab(new ImageUploaderSettingTab(this.app, this));
 
@@ -52,15 +236,184 @@ export default class ImageUploaderPlugin extends Plugin {
         this.registerEvent(
             this.app.workspace.on('editor-paste', this.handlePaste.bind(this))
         );
+        this.registerEvent(
+            this.app.workspace.on('editor-drop', this.handleDrop.bind(this))
+        );
 
         // Add command to upload all images
         this.addCommand({
             id: 'upload-all-images',
             name: 'Upload all images in current file',
-            editorCallback: (editor: Editor) => this.uploadAllImages(editor),
+            editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => this.uploadAllImages(editor, ctx.file),
             hotkeys: [{ modifiers: ["Mod", "Shift"], key: "u" }]
         });
 
+        // 把远程图片下载回库中
+        this.addCommand({
+            id: 'download-all-images',
+            name: 'Download remote images in current file',
+            editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => this.downloadAllImages(editor, ctx.file)
+        });
+
+        this.addCommand({
+            id: 'download-vault-images',
+            name: 'Download remote images in vault',
+            callback: () => this.batchJob.start(null, 'download')
+        });
+
+        // 生成图片已上传的笔记副本用于发布, 不修改原笔记
+        this.addCommand({
+            id: 'copy-note-with-uploaded-images',
+            name: 'Copy note with uploaded images',
+            editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => this.exportNote(editor, ctx.file, 'clipboard')
+        });
+
+        this.addCommand({
+            id: 'export-note-with-uploaded-images',
+            name: 'Export note with uploaded images to file',
+            editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => this.exportNote(editor, ctx.file, 'file')
+        });
+
+        this.addCommand({
+            id: 'migrate-images',
+            name: 'Migrate images to another host',
+            callback: () => new MigrationModal(this).open()
+        });
+
+        // 批量上传整个库中的图片
+        this.addCommand({
+            id: 'upload-vault-images',
+            name: 'Upload all images in vault',
+            callback: () => this.batchJob.start(null)
+        });
+
+        this.addCommand({
+            id: 'pause-batch-upload',
+            name: 'Pause batch upload',
+            checkCallback: (checking: boolean) => {
+                if (!this.batchJob.isActive() || this.batchJob.isPaused()) return false;
+                if (!checking) this.batchJob.pause();
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'resume-batch-upload',
+            name: 'Resume batch upload',
+            checkCallback: (checking: boolean) => {
+                if (!this.batchJob.isPaused()) return false;
+                if (!checking) this.batchJob.resume();
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'cancel-batch-upload',
+            name: 'Cancel batch upload',
+            checkCallback: (checking: boolean) => {
+                if (!this.batchJob.isActive()) return false;
+                if (!checking) this.batchJob.cancel();
+                return true;
+            }
+        });
+
+        // 上传缓存管理
+        this.addCommand({
+            id: 'show-upload-cache',
+            name: 'Show upload cache',
+            callback: () => new UploadCacheModal(this.app, this.uploadCache, this.settings.profiles).open()
+        });
+
+        this.addCommand({
+            id: 'prune-upload-cache',
+            name: 'Prune upload cache',
+            callback: () => this.pruneUploadCache()
+        });
+
+        this.addCommand({
+            id: 'export-upload-cache',
+            name: 'Export upload cache',
+            callback: () => this.exportUploadCache()
+        });
+
+        this.addCommand({
+            id: 'show-upload-history',
+            name: 'Show upload history',
+            callback: () => this.openSidebarView(UPLOAD_HISTORY_VIEW)
+        });
+
+        this.addCommand({
+            id: 'delete-unreferenced-uploads',
+            name: 'Delete uploaded images not used in any note',
+            callback: () => this.deleteUnreferencedUploads()
+        });
+
+        // 离线上传队列
+        this.addCommand({
+            id: 'show-upload-queue',
+            name: 'Show offline upload queue',
+            callback: () => this.openSidebarView(UPLOAD_QUEUE_VIEW)
+        });
+
+        this.addCommand({
+            id: 'retry-upload-queue',
+            name: 'Retry offline upload queue',
+            callback: () => this.flushUploadQueue(true)
+        });
+
+        // 检查库中所有远程图片链接, 报告中的修复操作通过 obsidian:// 链接回到插件
+        this.addCommand({
+            id: 'check-image-links',
+            name: 'Check remote image links in vault',
+            callback: () => this.checkImageLinks()
+        });
+
+        this.registerObsidianProtocolHandler(REPAIR_PROTOCOL_ACTION, params => {
+            if ((params.mode === 'reupload' || params.mode === 'download') && params.url) {
+                this.repairLink(params.mode, params.url);
+            }
+        });
+
+        // 上传当前画布中的图片和附件
+        this.addCommand({
+            id: 'upload-canvas-attachments',
+            name: 'Upload attachments in current canvas',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'canvas') return false;
+                if (!checking) this.uploadCanvasWithNotice(file);
+                return true;
+            }
+        });
+
+        // 文件夹右键菜单: 批量上传文件夹中的图片; 画布右键菜单: 上传画布中的附件
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu: Menu, file) => {
+                if (file instanceof TFile && file.extension === 'canvas') {
+                    menu.addItem((item) => {
+                        item
+                            .setTitle('上传画布中的附件')
+                            .setIcon('upload')
+                            .onClick(() => this.uploadCanvasWithNotice(file));
+                    });
+                    return;
+                }
+                if (!(file instanceof TFolder)) return;
+                menu.addItem((item) => {
+                    item
+                        .setTitle('上传文件夹中的所有图片')
+                        .setIcon('upload')
+                        .onClick(() => this.batchJob.start(file));
+                });
+                menu.addItem((item) => {
+                    item
+                        .setTitle('下载文件夹中的远程图片')
+                        .setIcon('download')
+                        .onClick(() => this.batchJob.start(file, 'download'));
+                });
+            })
+        );
+
         // Add reload command for development
         this.addCommand({
             id: 'reload-plugin',
@@ -78,34 +431,533 @@ export default class ImageUploaderPlugin extends Plugin {
         // 注册编辑器菜单事件
         this.registerEvent(
             this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor, view: MarkdownView) => {
-                // 获取当前光标位置
-                const cursor = editor.getCursor();
-                const line = editor.getLine(cursor.line);
-
                 // 检查光标是否在图片链接上
-                const imageMatch = this.getImageAtCursor(line, cursor.ch);
+                const imageMatch = this.getImageAtCursor(editor);
                 if (imageMatch) {
                     menu.addItem((item) => {
                         item
                             .setTitle('上传此图片')
                             .setIcon('upload')
                             .onClick(async () => {
-                                await this.uploadSingleImage(editor, imageMatch, cursor.line);
+                                await this.uploadSingleImage(editor, imageMatch, view.file);
                             });
                     });
+
+                    // 通过本插件上传且配置支持删除的图片
+                    const entry = this.getDeletableUpload(imageMatch.url);
+                    if (entry) {
+                        menu.addItem((item) => {
+                            item
+                                .setTitle('删除远程图片')
+                                .setIcon('trash')
+                                .onClick(() => this.confirmDeleteImageAtCursor(editor, imageMatch, entry, view.file));
+                        });
+                    }
                 }
             })
         );
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+        // 迁移旧版本的单接口设置
+        if (!data?.profiles) {
+            const legacy: LegacyApiSettings = data || {};
+            const profile = createProfile('Default', {
+                apiUrl: legacy.apiUrl || PLACEHOLDER_API_URL,
+                method: legacy.method || 'POST',
+                jsonPath: legacy.jsonPath ?? 'data.url',
+                customHeaders: legacy.customHeaders || []
+            });
+            this.settings.profiles = [profile];
+            this.settings.profileRules = [];
+            this.settings.defaultProfileId = profile.id;
+            const settings = this.settings as ImageUploaderSettings & LegacyApiSettings;
+            delete settings.apiUrl;
+            delete settings.method;
+            delete settings.jsonPath;
+            delete settings.customHeaders;
+        }
+        this.settings.profiles = this.settings.profiles.map(normalizeProfile);
+
+        // 迁移旧版本的域名黑名单
+        const legacy = this.settings as ImageUploaderSettings & LegacyApiSettings;
+        if (legacy.blacklistDomains) {
+            if (!data?.uploadRules) {
+                this.settings.uploadRules = [...DEFAULT_SETTINGS.uploadRules, ...migrateBlacklist(legacy.blacklistDomains)];
+            }
+            delete legacy.blacklistDomains;
+        }
+
+        // 把自定义请求头中明文保存的 Bearer 令牌移到本机密钥存储
+        let movedSecrets = false;
+        this.settings.profiles.forEach(profile => {
+            if (profile.auth.type !== 'none') return;
+            const index = profile.customHeaders.findIndex(header => /^\s*authorization\s*:\s*bearer\s+\S/i.test(header));
+            if (index === -1) return;
+            const token = profile.customHeaders[index].replace(/^\s*authorization\s*:\s*bearer\s+/i, '').trim();
+            this.secrets.set(profile.id, AUTH_SECRETS.token, token);
+            profile.auth.type = 'bearer';
+            profile.customHeaders.splice(index, 1);
+            movedSecrets = true;
+        });
+
+        // 内置后端旧版本保存在 data.json 中的密钥同样移到本机密钥存储
+        this.settings.profiles.forEach(profile => {
+            const legacyFields: Array<[object, string, string]> = [
+                [profile.s3, 'secretAccessKey', AUTH_SECRETS.s3SecretAccessKey],
+                [profile.webdav, 'password', AUTH_SECRETS.webdavPassword],
+                [profile.github, 'token', AUTH_SECRETS.githubToken]
+            ];
+            legacyFields.forEach(([config, field, secret]) => {
+                const record = config as Record<string, unknown>;
+                if (!(field in record)) return;
+                const value = String(record[field] ?? '').trim();
+                if (value) this.secrets.set(profile.id, secret, value);
+                delete record[field];
+                movedSecrets = true;
+            });
+        });
+        if (movedSecrets) await this.saveSettings();
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
     }
 
+    // 根据规则为当前笔记选择上传配置
+    getProfileForFile(file: TFile | null): UploadProfile {
+        return resolveProfile(this.app, this.settings.profiles, this.settings.profileRules,
+            this.settings.defaultProfileId, file);
+    }
+
+    // 按附件分类选择上传配置: 分类规则指定了配置时使用该配置, 否则按笔记规则选择
+    getProfileForAttachment(category: AttachmentCategory, file: TFile | null): UploadProfile {
+        const route = findRoute(this.settings.attachmentRoutes, category);
+        return this.settings.profiles.find(profile => profile.id === route?.profileId) ?? this.getProfileForFile(file);
+    }
+
+    // 按设置创建带超时和重试的请求客户端; 批量操作传入共享的重试额度
+    createHttpClient(budget?: RetryBudget): HttpClient {
+        return new HttpClient({
+            timeoutMs: this.settings.requestTimeout * 1000,
+            maxRetries: this.settings.maxRetries,
+            baseDelayMs: this.settings.retryBaseDelay,
+            maxDelayMs: 30000
+        }, budget, this.rateLimiter);
+    }
+
+    // 检查图片是否已经位于任一上传配置的服务器上, 或是缓存中记录的上传结果
+    isUploadedUrl(url: string): boolean {
+        const http = this.createHttpClient();
+        return this.uploadCache.hasUrl(url) ||
+            this.settings.profiles.some(profile => createUploader(profile, http, this.auth).isOwnUrl(url));
+    }
+
+    // 在右侧边栏打开插件的视图 (离线队列、上传记录), 已打开时直接显示
+    async openSidebarView(type: string) {
+        let leaf = this.app.workspace.getLeavesOfType(type)[0];
+        if (!leaf) {
+            leaf = this.app.workspace.getRightLeaf(false) ?? this.app.workspace.getLeaf(true);
+            await leaf.setViewState({ type, active: true });
+        }
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    // 查找引用指定图片地址的笔记和画布
+    async findNotesUsingUrl(url: string): Promise<TFile[]> {
+        const notes: TFile[] = [];
+        for (const file of this.getLinkingFiles()) {
+            const content = await this.app.vault.cachedRead(file);
+            if (content.includes(url) && this.getReferencedUrls(file, content).includes(url)) {
+                notes.push(file);
+            }
+        }
+        return notes;
+    }
+
+    // 可能引用远程图片的文件: 笔记, 以及上传后把附件改为 link 节点的画布
+    private getLinkingFiles(): TFile[] {
+        return this.app.vault.getFiles().filter(file => file.extension === 'md' || file.extension === 'canvas');
+    }
+
+    private getReferencedUrls(file: TFile, content: string): string[] {
+        if (file.extension !== 'canvas') return findImageLinks(content).map(link => link.url);
+        try {
+            return findLinkUrls(parseCanvas(content));
+        } catch (error) {
+            console.warn(`无法解析画布: ${file.path}`, error);
+            return [];
+        }
+    }
+
+    // 画布中 file 节点引用的库内文件, 无法解析时返回 null
+    private getCanvasFilePaths(path: string, content: string): string[] | null {
+        try {
+            return findFileNodes(parseCanvas(content)).map(node => node.file as string);
+        } catch (error) {
+            console.warn(`无法解析画布: ${path}`, error);
+            return null;
+        }
+    }
+
+    async flushUploadQueue(manual = false) {
+        this.lastQueueFlush = Date.now();
+        if (this.uploadQueue.size === 0) {
+            if (manual) new Notice('没有等待上传的图片');
+            return;
+        }
+        if (!navigator.onLine) {
+            if (manual) new Notice('当前离线, 联网后会自动上传');
+            return;
+        }
+        const success = await this.uploadQueue.flush();
+        if (success > 0 || manual) {
+            new Notice(`✅ 离线队列中 ${success} 张图片上传成功${this.uploadQueue.size > 0 ? `, ${this.uploadQueue.size} 张仍在队列中` : ''}`);
+        }
+    }
+
+    // 上传队列中的本地附件, 并把笔记中指向它的链接替换为远程地址
+    async uploadQueuedItem(item: QueueItem) {
+        const attachment = this.app.vault.getAbstractFileByPath(item.path);
+        if (!(attachment instanceof TFile)) {
+            console.warn(`队列中的附件已不存在, 移出队列: ${item.path}`);
+            return;
+        }
+
+        const note = this.app.vault.getAbstractFileByPath(item.notePath);
+        const noteFile = note instanceof TFile ? note : null;
+        const data = await this.app.vault.readBinary(attachment);
+        const file = new File([data], attachment.name, { type: this.getMimeType(attachment.name) });
+        const { url } = await this.uploadImage(file, this.getProfileForAttachment('image', noteFile), attachment.path, item.notePath);
+
+        if (!noteFile) return;
+        let newContent = '';
+        await this.app.vault.process(noteFile, content => {
+            const edits = findImageLinks(content)
+                .filter(link => !isRemoteUrl(link.url) &&
+                    this.app.metadataCache.getFirstLinkpathDest(getLinkPath(link), noteFile.path) === attachment)
+                .map(link => buildRemoteEdit(link, url));
+            newContent = applyEdits(content, edits);
+            return newContent;
+        });
+        await this.cleanupLocalFiles([attachment], noteFile.path, newContent);
+        console.log(`✅ 队列上传成功: ${attachment.path} -> ${url}`);
+    }
+
+    // 清理缓存: 删除配置已不存在或地址不再被任何笔记引用的记录
+    async pruneUploadCache() {
+        const referenced = await this.collectReferencedUrls();
+        const profileIds = new Set(this.settings.profiles.map(profile => profile.id));
+        const removed = await this.uploadCache.prune(entry =>
+            profileIds.has(entry.profileId) && referenced.has(entry.url));
+        new Notice(`已清理 ${removed} 条缓存记录, 剩余 ${this.uploadCache.getAll().length} 条`);
+    }
+
+    // 所有笔记和画布中引用的图片地址
+    private async collectReferencedUrls(): Promise<Set<string>> {
+        const referenced = new Set<string>();
+        for (const file of this.getLinkingFiles()) {
+            const content = await this.app.vault.cachedRead(file);
+            this.getReferencedUrls(file, content).forEach(url => referenced.add(url));
+        }
+        return referenced;
+    }
+
+    // 查找上传记录中可以删除的图片: 配置仍然存在且支持删除
+    private getDeletableUpload(url: string): HistoryEntry | null {
+        if (!isRemoteUrl(url)) return null;
+        const entry = this.uploadHistory.findByUrl(url);
+        const profile = entry && this.settings.profiles.find(p => p.id === entry.profileId);
+        if (!entry || !profile) return null;
+        return createUploader(profile, this.createHttpClient(), this.auth).supportsDelete(entry.deleteKey) ? entry : null;
+    }
+
+    // 从服务器删除图片, 并移除对应的上传记录和缓存
+    async deleteRemoteImage(entry: HistoryEntry, http: HttpClient = this.createHttpClient()) {
+        const profile = this.settings.profiles.find(p => p.id === entry.profileId);
+        if (!profile) throw new Error('上传配置已被删除');
+        await createUploader(profile, http, this.auth).delete(entry.url, entry.deleteKey);
+        await this.uploadHistory.remove(entry.id);
+        await this.uploadCache.prune(cached => cached.url !== entry.url);
+        console.log(`🗑️ 已删除远程图片: ${entry.url}`);
+    }
+
+    // 同一地址可能被其他笔记引用 (上传缓存会复用相同内容的地址), 确认前列出这些笔记
+    private async confirmDeleteImageAtCursor(editor: Editor, image: ImageLink, entry: HistoryEntry, file: TFile | null) {
+        const otherNotes = (await this.findNotesUsingUrl(entry.url))
+            .filter(note => note.path !== file?.path)
+            .map(note => note.path);
+        new ConfirmDeleteModal(this.app, entry.url, otherNotes,
+            () => this.deleteImageAtCursor(editor, image, entry)).open();
+    }
+
+    private async deleteImageAtCursor(editor: Editor, image: ImageLink, entry: HistoryEntry) {
+        try {
+            await this.deleteRemoteImage(entry);
+        } catch (error) {
+            console.error('❌ 删除失败:', error);
+            new Notice(`❌ 删除失败: ${error.message}`);
+            return;
+        }
+
+        // 移除笔记中的图片链接, 可以撤销
+        applyEditsToEditor(editor, [{
+            from: image.index,
+            to: image.index + image.originalMark.length,
+            original: image.originalMark,
+            text: ''
+        }]);
+        new Notice('✅ 已删除远程图片');
+    }
+
+    // 查找已不被任何笔记引用的上传图片, 确认后从服务器删除
+    async deleteUnreferencedUploads() {
+        const referenced = await this.collectReferencedUrls();
+        const seen = new Set<string>();
+        const candidates = this.uploadHistory.getAll().filter(entry => {
+            if (referenced.has(entry.url) || seen.has(entry.url)) return false;
+            seen.add(entry.url);
+            return !!this.getDeletableUpload(entry.url);
+        });
+
+        if (candidates.length === 0) {
+            new Notice('没有未被引用且可以删除的上传图片');
+            return;
+        }
+
+        new UnreferencedUploadsModal(this.app, candidates, this.settings.profiles, async entries => {
+            const notice = new Notice(`正在删除 0/${entries.length} 张图片...`, 0);
+            const budget: RetryBudget = { remaining: this.settings.retryBudget };
+            let done = 0;
+            let failed = 0;
+            await runPool(entries, this.settings.maxConcurrent, async entry => {
+                try {
+                    await this.deleteRemoteImage(entry, this.createHttpClient(budget));
+                } catch (error) {
+                    failed++;
+                    console.error(`❌ 删除失败: ${entry.url}`, error);
+                }
+                notice.setMessage(`正在删除 ${++done}/${entries.length} 张图片...`);
+            }, () => this.unloaded);
+            notice.hide();
+            if (this.unloaded) return;
+            new Notice(`🗑️ 已删除 ${entries.length - failed} 张图片${failed > 0 ? `, ❌ ${failed} 张失败 (详情见控制台)` : ''}`, 10000);
+        }).open();
+    }
+
+    // 扫描所有笔记中来源主机匹配的远程图片, 已位于目标配置上的图片不迁移
+    async buildMigrationPlan(pattern: string, profileId: string): Promise<MigrationPlan> {
+        const profile = this.settings.profiles.find(p => p.id === profileId);
+        const target = profile ? createUploader(profile, this.createHttpClient(), this.auth) : null;
+        const notesByUrl = new Map<string, string[]>();
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const content = await this.app.vault.cachedRead(file);
+            findImageLinks(content)
+                .filter(link => isRemoteUrl(link.url) && hostMatches(link.url, pattern) && !target?.isOwnUrl(link.url))
+                .forEach(link => {
+                    const notes = notesByUrl.get(link.url) ?? [];
+                    if (!notes.includes(file.path)) notes.push(file.path);
+                    notesByUrl.set(link.url, notes);
+                });
+        }
+
+        return {
+            pattern,
+            profileId,
+            items: Array.from(notesByUrl.entries()).map(([url, notes]) => ({ url, notes }))
+        };
+    }
+
+    // 下载并重新上传计划中的图片, 保存新旧地址映射文件, 再按映射改写笔记
+    async runMigration(plan: MigrationPlan) {
+        const profile = this.settings.profiles.find(p => p.id === plan.profileId);
+        if (!profile) {
+            new Notice('目标配置不存在');
+            return;
+        }
+
+        const result: MigrationResult = {
+            pattern: plan.pattern,
+            profile: profile.name,
+            createdAt: moment().format(),
+            mappings: {},
+            failed: []
+        };
+        const budget: RetryBudget = { remaining: this.settings.retryBudget };
+        const notice = new Notice(`迁移图片 0/${plan.items.length}...`, 0);
+        let done = 0;
+
+        await runPool(plan.items, this.settings.maxConcurrent, async item => {
+            const http = this.createHttpClient(budget);
+            try {
+                const file = await this.downloadImage(item.url, http);
+                const { url } = await this.uploadImage(file, profile, item.url, item.notes[0] ?? '', http);
+                if (!url) throw new Error('上传返回的URL为空');
+                result.mappings[item.url] = url;
+                console.log(`✅ 已迁移: ${item.url} -> ${url}`);
+            } catch (error) {
+                result.failed.push({ url: item.url, error: error.message || '未知错误' });
+                console.error(`❌ 迁移失败: ${item.url}`, error);
+            }
+            notice.setMessage(`迁移图片 ${++done}/${plan.items.length}...`);
+        }, () => this.unloaded);
+
+        // 先保存映射, 改写笔记中途出错时也能据此恢复
+        const mappingPath = normalizePath(`图片迁移映射 ${moment().format('YYYY-MM-DD HHmmss')}.json`);
+        await this.app.vault.create(mappingPath, JSON.stringify(result, null, 2));
+        // 插件已卸载: 只保留已迁移图片的映射, 不再改写笔记
+        if (this.unloaded) {
+            notice.hide();
+            return;
+        }
+
+        notice.setMessage('正在改写笔记...');
+        const notePaths = new Set(plan.items.filter(item => result.mappings[item.url]).flatMap(item => item.notes));
+        let rewritten = 0;
+        for (const path of notePaths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+            await this.app.vault.process(file, content => {
+                const edits = findImageLinks(content)
+                    .filter(link => result.mappings[link.url])
+                    .map(link => buildRemoteEdit(link, result.mappings[link.url]));
+                if (edits.length > 0) rewritten++;
+                return applyEdits(content, edits);
+            });
+        }
+
+        notice.hide();
+        const migrated = Object.keys(result.mappings).length;
+        new Notice(`迁移完成: ✅ ${migrated} 张图片, ❌ ${result.failed.length} 张失败, 改写 ${rewritten} 个笔记。映射已保存到 ${mappingPath}`, 10000);
+    }
+
+    // 收集库中所有远程图片并逐个检查, 生成报告笔记
+    async checkImageLinks() {
+        const notesByUrl = new Map<string, string[]>();
+        for (const file of this.app.vault.getMarkdownFiles().filter(file => !this.isExcludedFromScan(file.path))) {
+            const content = await this.app.vault.cachedRead(file);
+            findImageLinks(content)
+                .filter(link => isRemoteUrl(link.url))
+                .forEach(link => {
+                    const notes = notesByUrl.get(link.url) ?? [];
+                    if (!notes.includes(file.path)) notes.push(file.path);
+                    notesByUrl.set(link.url, notes);
+                });
+        }
+        if (notesByUrl.size === 0) {
+            new Notice('库中没有远程图片');
+            return;
+        }
+
+        // 请求经过按主机限速器, 重试共用一个额度, 避免失效的主机拖慢整个检查
+        const urls = Array.from(notesByUrl.keys());
+        const budget: RetryBudget = { remaining: this.settings.retryBudget };
+        const notice = new Notice(`检查图片链接 0/${urls.length}...`, 0);
+        let done = 0;
+        const results = await runPool(urls, this.settings.maxConcurrent, async (url): Promise<LinkCheckResult> => {
+            const result = await checkLink(url, this.createHttpClient(budget), this.settings.slowLinkThreshold * 1000);
+            notice.setMessage(`检查图片链接 ${++done}/${urls.length}...`);
+            return { ...result, notes: notesByUrl.get(url) ?? [] };
+        }, () => this.unloaded);
+        notice.hide();
+        if (this.unloaded) return;
+
+        const vault = encodeURIComponent(this.app.vault.getName());
+        const report = buildHealthReport(results, {
+            // 括号会截断 Markdown 链接, 也需要编码
+            actionLink: (mode, url) => `obsidian://${REPAIR_PROTOCOL_ACTION}?vault=${vault}&mode=${mode}&url=${encodeURIComponent(url)}`
+                .replace(/\(/g, '%28').replace(/\)/g, '%29'),
+            hasCopy: result => result.health !== 'broken' || !!this.findLocalCopy(result.url)
+        });
+        const file = await this.createReport(`图片链接检查报告 ${moment().format('YYYY-MM-DD HHmmss')}.md`, report);
+        await this.app.workspace.getLeaf(true).openFile(file);
+
+        const broken = results.filter(result => result.health === 'broken').length;
+        new Notice(`检查完成: ${results.length} 个链接, ❌ ${broken} 个失效`, 10000);
+    }
+
+    // 上传记录或缓存中该图片来源的库内附件, 仍存在时可用于修复失效链接
+    private findLocalCopy(url: string): TFile | null {
+        const sources = [this.uploadHistory.findByUrl(url)?.sourceUrl,
+            ...this.uploadCache.getAll().filter(entry => entry.url === url).map(entry => entry.sourceUrl)];
+        for (const source of sources) {
+            if (!source || isRemoteUrl(source)) continue;
+            const file = this.app.vault.getAbstractFileByPath(source);
+            if (file instanceof TFile) return file;
+        }
+        return null;
+    }
+
+    // 修复链接: 从库内副本或仍可访问的远程地址取得图片, 重新上传或保存为附件, 并改写所有引用它的笔记
+    async repairLink(mode: RepairMode, url: string) {
+        const notes = await this.findNotesUsingUrl(url);
+        if (notes.length === 0) {
+            new Notice('没有笔记引用此图片');
+            return;
+        }
+
+        const notice = new Notice(mode === 'reupload' ? '正在重新上传图片...' : '正在下载图片...', 0);
+        try {
+            const http = this.createHttpClient();
+            const local = this.findLocalCopy(url);
+            let buildEdit: (link: ImageLink, note: TFile) => TextEdit;
+
+            if (mode === 'reupload') {
+                const file = local
+                    ? new File([await this.app.vault.readBinary(local)], local.name, { type: this.getMimeType(local.name) })
+                    : await this.downloadImage(url, http);
+                // 内容相同的图片会命中缓存并返回失效的地址, 先移除指向它的缓存记录
+                await this.uploadCache.prune(cached => cached.url !== url);
+                const { url: newUrl } = await this.uploadImage(file, this.getProfileForAttachment('image', notes[0]), local?.path ?? url, notes[0].path, http);
+                if (!newUrl) throw new Error('上传返回的URL为空');
+                if (newUrl === url) throw new Error('上传后的地址与失效地址相同');
+                buildEdit = link => buildRemoteEdit(link, newUrl);
+            } else {
+                const target = local ?? await this.saveDownloadedImage(await this.downloadImage(url, http), notes[0].path);
+                buildEdit = (link, note) => ({
+                    from: link.index,
+                    to: link.index + link.originalMark.length,
+                    original: link.originalMark,
+                    text: this.buildLocalEmbed(link, target, note.path)
+                });
+            }
+
+            let rewritten = 0;
+            for (const note of notes) {
+                await this.app.vault.process(note, content => {
+                    // 多个引用式图片共用同一个定义时只修改一次
+                    const edits = findImageLinks(content)
+                        .filter(link => link.url === url)
+                        .map(link => buildEdit(link, note))
+                        .filter((edit, i, all) => all.findIndex(other => other.from === edit.from && other.to === edit.to) === i);
+                    if (edits.length > 0) rewritten++;
+                    return applyEdits(content, edits);
+                });
+            }
+            notice.hide();
+            new Notice(`✅ 已修复图片链接, 改写 ${rewritten} 个笔记`);
+        } catch (error) {
+            notice.hide();
+            new Notice(`修复失败: ${error.message}`);
+            console.error('修复图片链接失败:', error);
+        }
+    }
+
+    // 导出缓存为库根目录下的 JSON 文件
+    async exportUploadCache() {
+        const entries = this.uploadCache.getAll().map(entry => ({
+            ...entry,
+            profile: this.settings.profiles.find(p => p.id === entry.profileId)?.name ?? null
+        }));
+        const path = normalizePath(`图片上传缓存 ${moment().format('YYYY-MM-DD HHmmss')}.json`);
+        await this.app.vault.create(path, JSON.stringify(entries, null, 2));
+        new Notice(`已导出 ${entries.length} 条缓存记录到 ${path}`);
+    }
+
     // 更新进度提示
     private updateProgressNotice(progress: UploadProgress) {
         const percent = Math.round((progress.current / progress.total) * 100);
@@ -113,7 +965,7 @@ export default class ImageUploaderPlugin extends Plugin {
         if (progress.success > 0) message += `✅ 成功: ${progress.success}\n`;
         if (progress.failed > 0) message += `❌ 失败: ${progress.failed}\n`;
         if (progress.skipped > 0) message += `⏭️ 已存在: ${progress.skipped}\n`;
-        if (progress.blacklisted > 0) message += `⛔ 黑名单: ${progress.blacklisted}`;
+        if (progress.blacklisted > 0) message += `⛔ 被规则排除: ${progress.blacklisted}`;
         
         if (!this.progressNotice) {
             this.progressNotice = new Notice(message, 0);
@@ -122,13 +974,24 @@ export default class ImageUploaderPlugin extends Plugin {
         }
     }
 
-    // 并发上传图片
-    private async uploadImagesConcurrently(editor: Editor, images: Array<{url: string, originalMark: string}>, 
-                                         maxConcurrent: number = 3): Promise<{
+    // 并发上传图片: 固定数量的工作协程, 结果以基于位置的修改一次性应用
+    private async uploadImagesConcurrently(content: string, images: ImageLink[], profile: UploadProfile,
+                                         sourcePath: string, options: {
+                                             onProgress?: (progress: UploadProgress) => void,
+                                             // 图片已由用户选择, 不再检查上传规则和是否已上传
+                                             skipChecks?: boolean
+                                         } = {}): Promise<{
         newContent: string;
         progress: UploadProgress;
+        edits: TextEdit[];
+        uploadedLocalFiles: TFile[];
+        // 与 images 顺序一致的逐项结果
+        items: UploadItemResult[];
     }> {
-        let content = editor.getValue();
+        const onProgress = options.onProgress ?? ((p: UploadProgress) => this.updateProgressNotice(p));
+        const uploadedLocalFiles: TFile[] = [];
+        const items: UploadItemResult[] = new Array(images.length);
+        const budget: RetryBudget = { remaining: this.settings.retryBudget };
         const progress: UploadProgress = {
             total: images.length,
             current: 0,
@@ -136,203 +999,751 @@ export default class ImageUploaderPlugin extends Plugin {
             failed: 0,
             skipped: 0,
             blacklisted: 0,
+            savedBytes: 0,
             errors: []
         };
 
-        // 分批处理图片
-        for (let i = 0; i < images.length; i += maxConcurrent) {
-            const batch = images.slice(i, i + maxConcurrent);
-            const promises = batch.map(async ({url, originalMark}) => {
-                try {
-                    // 检查黑名单
-                    if (this.isUrlBlacklisted(url)) {
-                        progress.blacklisted++;
-                        progress.current++;
-                        this.updateProgressNotice(progress);
-                        return { originalMark, newMark: originalMark };
-                    }
+        // 同一张图片在笔记中出现多次时只上传一次
+        const inflight = new Map<string, Promise<{ newUrl: string, savedBytes: number, localFile?: TFile } | { excluded: string }>>();
+        const uploadOnce = (image: ImageLink, http: HttpClient) => {
+            const key = isRemoteUrl(image.url) ? image.url : `local:${getLinkPath(image)}`;
+            let task = inflight.get(key);
+            if (!task) {
+                task = (async () => {
+                    // 下载远程图片或读取本地附件
+                    const { file, localFile } = await this.loadImageFile(image, sourcePath, http);
 
-                    // 检查是否已上传
-                    if (url.startsWith(new URL(this.settings.apiUrl).origin)) {
-                        progress.skipped++;
-                        progress.current++;
-                        this.updateProgressNotice(progress);
-                        return { originalMark, newMark: originalMark };
-                    }
+                    // 大小规则只能在读取图片后检查
+                    const sizeCheck = checkSize(this.settings.uploadRules, file.size);
+                    if (!options.skipChecks && sizeCheck.excluded) return { excluded: sizeCheck.reason };
+                    const routeLimit = checkRouteSize(this.settings.attachmentRoutes, 'image', file.size);
+                    if (!options.skipChecks && routeLimit) return { excluded: routeLimit };
 
-                    // 下载图片
-                    const response = await requestUrl({
-                        url: url,
-                        method: "GET",
-                        headers: {
-                            'Accept': 'image/*'
-                        }
-                    });
+                    // 上传图片
+                    const { url: newUrl, savedBytes } = await this.uploadImage(file, profile, localFile?.path ?? image.url, sourcePath, http);
+                    if (!newUrl) throw new Error("上传返回的URL为空");
+                    return { newUrl, savedBytes, localFile };
+                })();
+                inflight.set(key, task);
+                return { task, first: true };
+            }
+            return { task, first: false };
+        };
 
-                    if (response.status !== 200) {
-                        throw new Error(`下载失败: HTTP ${response.status}`);
-                    }
+        const results = await runPool(images, this.settings.maxConcurrent, async (image, index): Promise<TextEdit | null> => {
+            const { url } = image;
+            const http = this.createHttpClient(budget);
+            try {
+                // 检查上传规则
+                const check = this.checkUrlRules(url);
+                if (!options.skipChecks && check.excluded) {
+                    progress.blacklisted++;
+                    items[index] = { url, status: 'blacklisted', error: check.reason };
+                    return null;
+                }
 
-                    // 处理文件
-                    const fileName = this.getUrlFileName(url);
-                    const mimeType = response.headers["content-type"] || this.getMimeType(url);
-                    const file = new File([response.arrayBuffer], fileName, { type: mimeType });
+                // 检查是否已上传
+                if (!options.skipChecks && this.isUploadedUrl(url)) {
+                    progress.skipped++;
+                    items[index] = { url, status: 'skipped' };
+                    return null;
+                }
 
-                    // 上传图片
-                    const newUrl = await this.uploadImage(file);
-                    
-                    if (newUrl) {
-                        progress.success++;
-                        const newMark = originalMark.replace(url, newUrl);
-                        console.log(`✅ 成功: ${url} -> ${newUrl}`);
-                        return { originalMark, newMark };
-                    } else {
-                        throw new Error("上传返回的URL为空");
-                    }
-                } catch (error) {
-                    progress.failed++;
-                    progress.errors.push({
-                        url: url,
-                        error: error.message || "未知错误"
-                    });
-                    console.error(`❌ 失败: ${url}`, error);
-                    return { originalMark, newMark: originalMark };
-                } finally {
-                    progress.current++;
-                    this.updateProgressNotice(progress);
+                const { task, first } = uploadOnce(image, http);
+                const result = await task;
+                if ('excluded' in result) {
+                    progress.blacklisted++;
+                    items[index] = { url, status: 'blacklisted', error: result.excluded };
+                    return null;
                 }
-            });
+                const { newUrl, savedBytes, localFile } = result;
 
-            // 等待当前批次完成
-            const results = await Promise.all(promises);
-            
-            // 更新内容
-            results.forEach(({originalMark, newMark}) => {
-                content = content.replace(originalMark, newMark);
+                progress.success++;
+                if (first) progress.savedBytes += savedBytes;
+                if (localFile && !uploadedLocalFiles.includes(localFile)) {
+                    uploadedLocalFiles.push(localFile);
+                }
+                console.log(`✅ 成功: ${url} -> ${newUrl}`);
+                items[index] = { url, status: 'success', newUrl };
+                return buildRemoteEdit(image, newUrl);
+            } catch (error) {
+                progress.failed++;
+                progress.errors.push({
+                    url: url,
+                    error: error.message || "未知错误",
+                    attempts: http.attempts
+                });
+                items[index] = { url, status: 'failed', error: error.message || "未知错误", attempts: http.attempts };
+                console.error(`❌ 失败: ${url}`, error);
+                return null;
+            } finally {
+                progress.current++;
+                onProgress(progress);
+            }
+        });
+
+        // 多个引用式图片共用同一个定义时只修改一次
+        const edits = results.filter((edit, i): edit is TextEdit => edit !== null &&
+            results.findIndex(other => other?.from === edit.from && other?.to === edit.to) === i);
+        return { newContent: applyEdits(content, edits), progress, edits, uploadedLocalFiles, items };
+    }
+
+    // 上传单个笔记中的图片并写回文件, 供批量任务使用
+    async uploadImagesInFile(file: TFile): Promise<UploadProgress | null> {
+        if (file.extension === 'canvas') return this.uploadCanvasFile(file);
+        const content = await this.app.vault.read(file);
+        const images = findImageLinks(content);
+        if (images.length === 0) return null;
+
+        // 被上传规则排除的笔记整个跳过
+        if (this.checkNoteRules(file).excluded) return null;
+
+        const profile = this.getProfileForAttachment('image', file);
+        const { progress, edits, uploadedLocalFiles } =
+            await this.uploadImagesConcurrently(content, images, profile, file.path, { onProgress: () => {} });
+
+        if (edits.length > 0) {
+            // 在最新内容上应用修改, 上传期间文件被改动时按原文重新定位
+            let newContent = '';
+            await this.app.vault.process(file, current => {
+                newContent = applyEdits(current, current === content ? edits : relocateEdits(current, edits));
+                return newContent;
             });
+            await this.cleanupLocalFiles(uploadedLocalFiles, file.path, newContent);
         }
 
-        return { newContent: content, progress };
+        return progress;
     }
 
-    async uploadAllImages(editor: Editor) {
-        const content = editor.getValue();
-        const imageRegex = /!\[.*?\]\((.*?)\)/g;
-        const matches = Array.from(content.matchAll(imageRegex));
+    // 上传画布中 file 节点引用的图片和有路由规则的附件, 并把这些节点改写为 link 节点
+    async uploadCanvasFile(canvas: TFile): Promise<UploadProgress | null> {
+        const content = await this.app.vault.read(canvas);
+        const paths = Array.from(new Set(findFileNodes(parseCanvas(content)).map(node => node.file as string)));
+        // 笔记、其他画布和没有路由规则的附件保持不变
+        const { uploadRules, attachmentRoutes } = this.settings;
+        const files = paths
+            .map(path => this.app.vault.getAbstractFileByPath(path))
+            .filter((file): file is TFile => file instanceof TFile && file.extension !== 'md' && file.extension !== 'canvas' &&
+                canUploadCategory(attachmentRoutes, getAttachmentCategory('', file.name)));
+        if (files.length === 0) return null;
+        if (this.checkNoteRules(canvas).excluded) return null;
+
+        const budget: RetryBudget = { remaining: this.settings.retryBudget };
+        const progress: UploadProgress = {
+            total: files.length,
+            current: 0,
+            success: 0,
+            failed: 0,
+            skipped: 0,
+            blacklisted: 0,
+            savedBytes: 0,
+            errors: []
+        };
+        const mappings: Record<string, string> = {};
+        const uploadedLocalFiles: TFile[] = [];
+
+        await runPool(files, this.settings.maxConcurrent, async file => {
+            const http = this.createHttpClient(budget);
+            try {
+                const category = getAttachmentCategory('', file.name);
+                if (this.isUrlExcluded(file.path) || checkSize(uploadRules, file.stat.size).excluded ||
+                    checkRouteSize(attachmentRoutes, category, file.stat.size)) {
+                    progress.blacklisted++;
+                    return;
+                }
+
+                const data = await this.app.vault.readBinary(file);
+                const upload = new File([data], file.name, { type: getMimeTypeByName(file.name) || 'application/octet-stream' });
+                const { url, savedBytes } = await this.uploadImage(upload, this.getProfileForAttachment(category, canvas),
+                    file.path, canvas.path, http);
+                if (!url) throw new Error('上传返回的URL为空');
+
+                mappings[file.path] = url;
+                uploadedLocalFiles.push(file);
+                progress.success++;
+                progress.savedBytes += savedBytes;
+                console.log(`✅ 成功: ${file.path} -> ${url}`);
+            } catch (error) {
+                progress.failed++;
+                progress.errors.push({ url: file.path, error: error.message || '未知错误', attempts: http.attempts });
+                console.error(`❌ 失败: ${file.path}`, error);
+            } finally {
+                progress.current++;
+            }
+        });
+
+        if (Object.keys(mappings).length > 0) {
+            const newContent = await this.app.vault.process(canvas, current => rewriteFileNodes(current, mappings));
+            await this.cleanupLocalFiles(uploadedLocalFiles, canvas.path, newContent);
+        }
+        return progress;
+    }
+
+    // 从文件菜单或命令上传单个画布
+    private async uploadCanvasWithNotice(canvas: TFile) {
+        new Notice(`开始上传画布 ${canvas.basename} 中的附件...`);
+        try {
+            const progress = await this.uploadCanvasFile(canvas);
+            if (!progress) {
+                new Notice('画布中没有可以上传的附件');
+                return;
+            }
+            let message = '处理完成:\n';
+            if (progress.success > 0) message += `✅ ${progress.success} 个成功\n`;
+            if (progress.failed > 0) {
+                message += `❌ ${progress.failed} 个失败\n`;
+                progress.errors.forEach(({url, error}) => message += `  • ${url}: ${error}\n`);
+            }
+            if (progress.blacklisted > 0) message += `⛔ ${progress.blacklisted} 个被规则排除`;
+            new Notice(message, 10000);
+        } catch (error) {
+            new Notice(`处理过程出错: ${error.message}`);
+            console.error('处理过程出错:', error);
+        }
+    }
 
-        if (matches.length === 0) {
+    async uploadAllImages(editor: Editor, noteFile: TFile | null) {
+        const images = findImageLinks(editor.getValue());
+
+        if (images.length === 0) {
             new Notice('没有找到需要上传的图片');
             return;
         }
 
-        // 准备图片数组
-        const images = matches.map(match => ({
-            url: match[1],
-            originalMark: match[0]
-        }));
+        const noteCheck = this.checkNoteRules(noteFile);
+        if (noteCheck.excluded) {
+            new Notice(`当前笔记被上传规则排除: ${noteCheck.reason}`);
+            return;
+        }
 
+        if (!this.settings.previewBeforeUpload) {
+            await this.uploadSelectedImages(editor, noteFile, images, false);
+            return;
+        }
+
+        // 先预览每张图片的计划操作, 由用户勾选后再上传
+        new UploadPreviewModal(this.app, images.map(image => this.planImage(image)), {
+            run: selected => this.uploadSelectedImages(editor, noteFile, selected, true),
+            replan: urls => findImageLinks(editor.getValue())
+                .filter(link => urls.includes(link.url))
+                .map(link => this.planImage(link))
+        }).open();
+    }
+
+    private planImage(image: ImageLink): PlannedImage {
+        const check = this.checkUrlRules(image.url);
+        if (check.excluded) return { image, action: 'blacklisted', reason: check.reason };
+        const action: PlannedAction = this.isUploadedUrl(image.url) ? 'skip' : isRemoteUrl(image.url) ? 'upload' : 'local';
+        return { image, action };
+    }
+
+    // 上传当前笔记中的指定图片并改写链接; 从预览中选择时以用户的选择为准, 不再检查上传规则和是否已上传
+    private async uploadSelectedImages(editor: Editor, noteFile: TFile | null, images: ImageLink[],
+                                       fromPreview: boolean): Promise<UploadItemResult[]> {
         // 开始上传提示
-        new Notice(`开始处理 ${images.length} 张图片...`);
-        
+        if (!fromPreview) new Notice(`开始处理 ${images.length} 张图片...`);
+
         try {
             // 并发上传图片
-            const { newContent, progress } = await this.uploadImagesConcurrently(editor, images);
-            
-            // 更新编辑器内容
-            if (progress.success > 0) {
-                editor.setValue(newContent);
+            const profile = this.getProfileForAttachment('image', noteFile);
+            const sourcePath = noteFile?.path ?? '';
+            const { progress, edits, uploadedLocalFiles, items } =
+                await this.uploadImagesConcurrently(editor.getValue(), images, profile, sourcePath, { skipChecks: fromPreview });
+
+            // 只替换链接所在的范围, 保留上传期间的输入、光标和滚动位置
+            const applied = applyEditsToEditor(editor, edits);
+            if (applied.length < edits.length) {
+                new Notice(`⚠️ ${edits.length - applied.length} 个链接在上传期间被修改或删除, 未替换`);
             }
 
+            // 按设置处理已上传的本地附件
+            await this.cleanupLocalFiles(uploadedLocalFiles, sourcePath, editor.getValue());
+
             // 清除进度提示
             if (this.progressNotice) {
                 this.progressNotice.hide();
                 this.progressNotice = null;
             }
 
+            // 预览窗口中会显示逐项结果
+            if (fromPreview) return items;
+
             // 显示最终结果
             let finalMessage = '处理完成:\n';
             if (progress.success > 0) finalMessage += `✅ ${progress.success} 个成功\n`;
             if (progress.failed > 0) {
                 finalMessage += `❌ ${progress.failed} 个失败\n`;
                 // 显示详细错误信息
-                progress.errors.forEach(({url, error}) => {
-                    finalMessage += `  • ${url.substring(0, 20)}... : ${error}\n`;
+                progress.errors.forEach(({url, error, attempts}) => {
+                    const retries = attempts?.filter(a => a.delayMs !== undefined).length ?? 0;
+                    finalMessage += `  • ${url.substring(0, 20)}... : ${error}${retries > 0 ? ` (重试 ${retries} 次)` : ''}\n`;
                 });
             }
             if (progress.skipped > 0) finalMessage += `⏭️ ${progress.skipped} 个已存在\n`;
-            if (progress.blacklisted > 0) finalMessage += `⛔ ${progress.blacklisted} 个在黑名单中`;
+            if (progress.blacklisted > 0) finalMessage += `⛔ ${progress.blacklisted} 个被规则排除\n`;
+            if (progress.savedBytes > 0) finalMessage += `🗜️ 图片处理节省 ${formatBytes(progress.savedBytes)}`;
 
             new Notice(finalMessage, 10000); // 显示10秒
+            return items;
         } catch (error) {
             new Notice(`处理过程出错: ${error.message}`);
             console.error('处理过程出错:', error);
+            return images.map(image => ({ url: image.url, status: 'failed', error: error.message }));
         }
     }
 
-    // Handle paste event
-    async handlePaste(evt: ClipboardEvent, editor: Editor) {
-        const files = evt.clipboardData?.files;
-        if (!files || files.length === 0) return;
+    // 在笔记内容的副本上上传图片 (包括本地附件), 转换为通用的图片写法后复制到剪贴板或写入导出文件夹;
+    // 原笔记和本地附件都保持不变
+    private getExportFolder(): string {
+        return normalizePath(this.settings.exportFolder.trim() || 'Export');
+    }
+
+    private getReportFolder(): string {
+        return normalizePath(this.settings.reportFolder.trim() || 'Image Reports');
+    }
+
+    // 导出的副本和报告笔记都包含图片链接, 不参与批量处理和链接检查
+    isExcludedFromScan(path: string): boolean {
+        return [this.getExportFolder(), this.getReportFolder()].some(folder => path.startsWith(folder + '/'));
+    }
+
+    // 在报告文件夹中创建报告笔记
+    async createReport(name: string, content: string): Promise<TFile> {
+        const folder = this.getReportFolder();
+        if (!this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        return this.app.vault.create(normalizePath(`${folder}/${name}`), content);
+    }
+
+    async exportNote(editor: Editor, noteFile: TFile | null, target: 'clipboard' | 'file') {
+        const content = editor.getValue();
+        const noteCheck = this.checkNoteRules(noteFile);
+        if (noteCheck.excluded) {
+            new Notice(`当前笔记被上传规则排除: ${noteCheck.reason}`);
+            return;
+        }
+
+        try {
+            const images = findImageLinks(content);
+            let output = content;
+            let failed = 0;
+            if (images.length > 0) {
+                new Notice(`开始处理 ${images.length} 张图片...`);
+                const { newContent, progress } = await this.uploadImagesConcurrently(content, images,
+                    this.getProfileForAttachment('image', noteFile), noteFile?.path ?? '');
+                output = newContent;
+                failed = progress.failed;
+                if (this.progressNotice) {
+                    this.progressNotice.hide();
+                    this.progressNotice = null;
+                }
+            }
+            output = convertImagesForExport(output, this.settings.exportImageSyntax);
+            const warning = failed > 0 ? `, ❌ ${failed} 张图片上传失败, 保留本地路径` : '';
+
+            if (target === 'clipboard') {
+                await navigator.clipboard.writeText(output);
+                new Notice(`✅ 已复制笔记${warning}`, failed > 0 ? 10000 : undefined);
+                return;
+            }
+
+            // 在导出文件夹中保留笔记的目录结构, 不同文件夹中的同名笔记不会互相覆盖;
+            // 同一笔记再次导出时覆盖上一次的导出文件
+            const relativePath = noteFile ? noteFile.path.replace(/\.md$/, '') : 'Untitled';
+            const path = normalizePath(`${this.getExportFolder()}/${relativePath}.md`);
+            const parent = path.substring(0, path.lastIndexOf('/'));
+            if (!this.app.vault.getAbstractFileByPath(parent)) {
+                await this.app.vault.createFolder(parent);
+            }
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            if (existing instanceof TFile) {
+                await this.app.vault.modify(existing, output);
+            } else {
+                await this.app.vault.create(path, output);
+            }
+            new Notice(`✅ 已导出到 ${path}${warning}`, failed > 0 ? 10000 : undefined);
+        } catch (error) {
+            new Notice(`导出失败: ${error.message}`);
+            console.error('导出失败:', error);
+        }
+    }
+
+    // 并发下载远程图片并保存为附件, 结果以基于位置的修改返回
+    private async downloadImagesConcurrently(images: ImageLink[], sourcePath: string, options: {
+        onProgress?: (progress: UploadProgress) => void
+    } = {}): Promise<{ progress: UploadProgress; edits: TextEdit[] }> {
+        const onProgress = options.onProgress ?? ((p: UploadProgress) => this.updateProgressNotice(p));
+        const budget: RetryBudget = { remaining: this.settings.retryBudget };
+        const progress: UploadProgress = {
+            total: images.length,
+            current: 0,
+            success: 0,
+            failed: 0,
+            skipped: 0,
+            blacklisted: 0,
+            savedBytes: 0,
+            errors: []
+        };
+
+        // 同一地址在笔记中出现多次时只下载一次
+        const inflight = new Map<string, Promise<TFile>>();
+        const results = await runPool(images, this.settings.maxConcurrent, async (image): Promise<TextEdit | null> => {
+            const { url } = image;
+            const http = this.createHttpClient(budget);
+            try {
+                if (this.isUrlExcluded(url)) {
+                    progress.blacklisted++;
+                    return null;
+                }
+
+                let task = inflight.get(url);
+                if (!task) {
+                    task = this.loadImageFile(image, sourcePath, http)
+                        .then(({ file }) => this.saveDownloadedImage(file, sourcePath));
+                    inflight.set(url, task);
+                }
+                const localFile = await task;
+
+                progress.success++;
+                console.log(`✅ 已下载: ${url} -> ${localFile.path}`);
+                return {
+                    from: image.index,
+                    to: image.index + image.originalMark.length,
+                    original: image.originalMark,
+                    text: this.buildLocalEmbed(image, localFile, sourcePath)
+                };
+            } catch (error) {
+                progress.failed++;
+                progress.errors.push({
+                    url,
+                    error: error.message || '未知错误',
+                    attempts: http.attempts
+                });
+                console.error(`❌ 下载失败: ${url}`, error);
+                return null;
+            } finally {
+                progress.current++;
+                onProgress(progress);
+            }
+        });
+
+        return { progress, edits: results.filter((edit): edit is TextEdit => edit !== null) };
+    }
 
-        const file = files[0];
-        if (!file.type.startsWith('image')) return;
+    // 按 Obsidian 的附件文件夹设置保存下载的图片, 文件名取自地址
+    private async saveDownloadedImage(file: File, sourcePath: string): Promise<TFile> {
+        let name = file.name;
+        try {
+            name = decodeURIComponent(name);
+        } catch {
+            // 保留原始文件名
+        }
+        name = name.replace(/[\\/:*?"<>|#^\[\]]+/g, '-') || 'image';
+        const ext = name.includes('.') ? name.split('.').pop()?.toLowerCase() ?? '' : '';
+        if (!IMAGE_EXTENSIONS.includes(ext)) {
+            const typeExt = file.type.split(';')[0].split('/')[1]?.split('+')[0].trim();
+            name += '.' + (typeExt && IMAGE_EXTENSIONS.includes(typeExt) ? typeExt : 'png');
+        }
+        const path = await this.app.fileManager.getAvailablePathForAttachment(name, sourcePath);
+        return this.app.vault.createBinary(path, await file.arrayBuffer());
+    }
+
+    // 按用户的链接格式设置生成本地嵌入, 保留说明文字和尺寸
+    private buildLocalEmbed(image: ImageLink, file: TFile, sourcePath: string): string {
+        const alias = [image.alt, image.size].filter(Boolean).join('|');
+        return '!' + this.app.fileManager.generateMarkdownLink(file, sourcePath, undefined, alias || undefined);
+    }
+
+    // 下载单个笔记中的远程图片并写回文件, 供批量任务使用
+    async downloadImagesInFile(file: TFile): Promise<UploadProgress | null> {
+        const content = await this.app.vault.read(file);
+        const images = findImageLinks(content).filter(link => isRemoteUrl(link.url));
+        if (images.length === 0) return null;
+
+        const { progress, edits } = await this.downloadImagesConcurrently(images, file.path, { onProgress: () => {} });
+        if (edits.length > 0) {
+            await this.app.vault.process(file, current =>
+                applyEdits(current, current === content ? edits : relocateEdits(current, edits)));
+        }
+        return progress;
+    }
 
-        // Check if auto upload is enabled
-        if (!this.settings.autoUploadOnPaste) {
+    async downloadAllImages(editor: Editor, noteFile: TFile | null) {
+        if (!noteFile) {
+            new Notice('请先保存笔记, 下载的图片需要按笔记位置存放');
+            return;
+        }
+        const images = findImageLinks(editor.getValue()).filter(link => isRemoteUrl(link.url));
+        if (images.length === 0) {
+            new Notice('没有找到远程图片');
             return;
         }
 
+        new Notice(`开始下载 ${images.length} 张图片...`);
+        try {
+            const { progress, edits } = await this.downloadImagesConcurrently(images, noteFile.path);
+
+            // 与上传相同, 只替换链接所在的范围并作为一步撤销
+            const applied = applyEditsToEditor(editor, edits);
+            if (applied.length < edits.length) {
+                new Notice(`⚠️ ${edits.length - applied.length} 个链接在下载期间被修改或删除, 未替换`);
+            }
+
+            if (this.progressNotice) {
+                this.progressNotice.hide();
+                this.progressNotice = null;
+            }
+
+            let finalMessage = '下载完成:\n';
+            if (progress.success > 0) finalMessage += `✅ ${progress.success} 个成功\n`;
+            if (progress.failed > 0) {
+                finalMessage += `❌ ${progress.failed} 个失败\n`;
+                progress.errors.forEach(({url, error, attempts}) => {
+                    const retries = attempts?.filter(a => a.delayMs !== undefined).length ?? 0;
+                    finalMessage += `  • ${url.substring(0, 20)}... : ${error}${retries > 0 ? ` (重试 ${retries} 次)` : ''}\n`;
+                });
+            }
+            if (progress.blacklisted > 0) finalMessage += `⛔ ${progress.blacklisted} 个被规则排除`;
+            new Notice(finalMessage, 10000);
+        } catch (error) {
+            new Notice(`处理过程出错: ${error.message}`);
+            console.error('处理过程出错:', error);
+        }
+    }
+
+    // Handle paste event
+    async handlePaste(evt: ClipboardEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo) {
+        if (evt.defaultPrevented || !this.settings.autoUploadOnPaste) return;
+        const files = Array.from(evt.clipboardData?.files ?? []);
+        if (!files.some(file => this.canUploadFile(file))) return;
+        // 被上传规则排除的笔记保持 Obsidian 默认的粘贴行为
+        if (this.checkNoteRules(info.file).excluded) return;
+
         evt.preventDefault();
+        this.insertAndUploadFiles(files, editor, info.file, 'paste');
+    }
+
+    async handleDrop(evt: DragEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo) {
+        if (evt.defaultPrevented || !this.settings.autoUploadOnDrop) return;
+        const files = Array.from(evt.dataTransfer?.files ?? []);
+        if (!files.some(file => this.canUploadFile(file))) return;
+        if (this.checkNoteRules(info.file).excluded) return;
+
+        evt.preventDefault();
+        // 占位符插入到拖放的位置, 而不是原来的光标处
+        const view = (editor as Editor & { cm?: EditorView }).cm;
+        const dropOffset = view?.posAtCoords({ x: evt.clientX, y: evt.clientY });
+        if (dropOffset !== null && dropOffset !== undefined) editor.setCursor(editor.offsetToPos(dropOffset));
+        this.insertAndUploadFiles(files, editor, info.file, 'drop');
+    }
 
+    // 图片, 以及有附件路由规则的视频、音频、PDF 等文件可以上传
+    private canUploadFile(file: File): boolean {
+        return canUploadCategory(this.settings.attachmentRoutes, getAttachmentCategory(file.type, file.name));
+    }
+
+    // 每个文件先插入一个占位符, 再按顺序在后台上传, 不影响继续输入;
+    // 没有路由规则的附件, 以及按扩展名或大小被排除的文件, 直接保存为本地附件, 不会丢失
+    private async insertAndUploadFiles(files: File[], editor: Editor, noteFile: TFile | null, source: 'paste' | 'drop') {
+        const from = editor.posToOffset(editor.getCursor('from'));
+        const slots: Array<{ from: number, placeholder: string }> = [];
+        let offset = from;
+        files.forEach(() => {
+            const placeholder = `![Uploading ${Math.random().toString(36).substring(2, 8)}…]()`;
+            slots.push({ from: offset, placeholder });
+            offset += placeholder.length + 1;
+        });
+        editor.replaceSelection(slots.map(slot => slot.placeholder).join('\n'));
+
+        const { uploadRules, attachmentRoutes } = this.settings;
+        const uploadable = files.map(file => this.canUploadFile(file) &&
+            !checkExtension(uploadRules, file.name).excluded && !checkSize(uploadRules, file.size).excluded &&
+            !checkRouteSize(attachmentRoutes, getAttachmentCategory(file.type, file.name), file.size));
+        const total = uploadable.filter(Boolean).length;
+        const notice = total > 1 ? new Notice(`上传文件 0/${total}...`, 0) : null;
+        let current = 0;
+        let success = 0;
+
+        for (let i = 0; i < files.length; i++) {
+            const file = files[i];
+            if (!uploadable[i]) {
+                await this.saveFileToPlaceholder(file, editor, noteFile, slots[i], source);
+                continue;
+            }
+            if (await this.uploadPastedFile(file, editor, noteFile, slots[i], source)) success++;
+            notice?.setMessage(`上传文件 ${++current}/${total}...`);
+        }
+
+        if (notice) {
+            notice.hide();
+            new Notice(`✅ ${success} 个文件上传成功${total - success > 0 ? `, ❌ ${total - success} 个已保存为本地附件` : ''}`);
+        }
+    }
+
+    // 上传粘贴的文件并把占位符替换为最终链接, 视频和音频插入播放器, 其他附件插入普通链接;
+    // 图片上传失败或离线时保存为本地附件并加入离线队列, 其他附件只保存为本地附件, 文件不会丢失
+    private async uploadPastedFile(file: File, editor: Editor, noteFile: TFile | null,
+                                   slot: { from: number, placeholder: string }, source: 'paste' | 'drop'): Promise<boolean> {
+        const category = getAttachmentCategory(file.type, file.name);
+        if (!navigator.onLine) {
+            if (category === 'image') {
+                await this.queuePastedImage(file, editor, noteFile, slot, source);
+                new Notice('当前离线, 图片已保存为本地附件, 联网后自动上传');
+            } else {
+                await this.saveFileToPlaceholder(file, editor, noteFile, slot, source);
+                new Notice('当前离线, 文件已保存为本地附件');
+            }
+            return false;
+        }
+
+        let link: string;
         try {
-            const url = await this.uploadImage(file);
-            if (url) {
-                let markdownImage = `![](${url})`;
-                if (this.settings.enableAutoWidth) {
-                    const width = await this.getDefaultWidth(file);
-                    if (width) {
-                        markdownImage = `![|${width}](${url})`;
-                    }
+            const uploaded = await this.uploadImage(file, this.getProfileForAttachment(category, noteFile),
+                source === 'paste' ? 'clipboard' : file.name, noteFile?.path ?? '');
+            const url = uploaded.url;
+            if (uploaded.savedBytes > 0) {
+                new Notice(`🗜️ 图片已处理: ${formatBytes(file.size)} → ${formatBytes(uploaded.file.size)}, 节省 ${formatBytes(uploaded.savedBytes)}`);
+            }
+            link = buildAttachmentLink(category, url, file.name);
+            if (category === 'image' && this.settings.enableAutoWidth) {
+                // 按处理后的图片尺寸计算显示宽度
+                const width = await this.getDefaultWidth(uploaded.file);
+                if (width) {
+                    link = `![|${width}](${url})`;
                 }
-                editor.replaceSelection(markdownImage);
             }
         } catch (error) {
-            new Notice('上传失败: ' + error.message);
+            console.error('❌ 上传失败:', error);
+            if (category === 'image') {
+                const queued = await this.queuePastedImage(file, editor, noteFile, slot, source);
+                new Notice(`上传失败, 已保存为本地附件${queued ? ', 稍后自动重试' : ''}: ${error.message}`);
+            } else {
+                await this.saveFileToPlaceholder(file, editor, noteFile, slot, source);
+                new Notice(`上传失败, 已保存为本地附件: ${error.message}`);
+            }
+            return false;
         }
+
+        await this.replacePlaceholder(editor, noteFile, slot, link);
+        return true;
     }
 
-    // Upload image
-    async uploadImage(file: File): Promise<string> {
+    // 保存为本地附件并加入离线队列, 没有对应笔记时无法改写链接, 不加入队列
+    private async queuePastedImage(file: File, editor: Editor, noteFile: TFile | null,
+                                   slot: { from: number, placeholder: string }, source: 'paste' | 'drop'): Promise<boolean> {
+        const attachment = await this.saveFileToPlaceholder(file, editor, noteFile, slot, source);
+        if (!attachment || !noteFile) return false;
+        await this.uploadQueue.add(attachment.path, noteFile.path);
+        return true;
+    }
+
+    // 把文件保存为本地附件并替换占位符
+    private async saveFileToPlaceholder(file: File, editor: Editor, noteFile: TFile | null,
+                                        slot: { from: number, placeholder: string }, source: 'paste' | 'drop'): Promise<TFile | null> {
+        let link = '';
+        let attachment: TFile | null = null;
         try {
-            // 检查API URL是否是默认值
-            if (this.settings.apiUrl === 'http://your-api.com/upload') {
-                new Notice('请在设置中配置正确的图片上传API地址');
-                throw new Error('未配置API地址');
-            }
+            attachment = await this.saveAsAttachment(file, noteFile, source);
+            link = '!' + this.app.fileManager.generateMarkdownLink(attachment, noteFile?.path ?? '');
+        } catch (error) {
+            console.error('保存本地附件失败:', error);
+            new Notice(`无法保存为本地附件: ${file.name}`);
+        }
+        await this.replacePlaceholder(editor, noteFile, slot, link);
+        return attachment;
+    }
 
-            console.log(`上传图片类型: ${file.type}, 文件名: ${file.name}, 大小: ${file.size} 字节`);
-            
-            // 创建FormData
-            const formData = new FormData();
-            formData.append('image', file);
-
-            // 发送请求
-            const response = await fetch(this.settings.apiUrl, {
-                method: this.settings.method,
-                body: formData,
-                headers: this.settings.customHeaders.reduce((acc, header) => {
-                    const [key, value] = header.split(':').map(s => s.trim());
-                    if (key && value) acc[key] = value;
-                    return acc;
-                }, {} as Record<string, string>)
+    // 把图片保存到 Obsidian 附件文件夹设置指定的位置
+    // 剪贴板中的图片没有有意义的文件名, 与 Obsidian 一样按时间命名; 拖入的文件和其他附件保留原名
+    private async saveAsAttachment(file: File, noteFile: TFile | null, source: 'paste' | 'drop'): Promise<TFile> {
+        const ext = file.name.includes('.') ? file.name.split('.').pop() : file.type.split('/')[1] || 'png';
+        const name = (source === 'drop' || !file.type.startsWith('image')) && file.name
+            ? file.name
+            : `Pasted image ${moment().format('YYYYMMDDHHmmss')}.${ext}`;
+        const path = await this.app.fileManager.getAvailablePathForAttachment(name, noteFile?.path);
+        return this.app.vault.createBinary(path, await file.arrayBuffer());
+    }
+
+    // 占位符可能因为上传期间的输入而移动, 按原文重新定位;
+    // 笔记已不在编辑器中打开时直接修改文件
+    private async replacePlaceholder(editor: Editor, noteFile: TFile | null,
+                                     slot: { from: number, placeholder: string }, text: string) {
+        const edit: TextEdit = { from: slot.from, to: slot.from + slot.placeholder.length, original: slot.placeholder, text };
+        if (editor.getValue().includes(slot.placeholder)) {
+            applyEditsToEditor(editor, [edit]);
+            return;
+        }
+
+        let replaced = false;
+        if (noteFile) {
+            await this.app.vault.process(noteFile, content => {
+                const edits = relocateEdits(content, [edit]);
+                replaced = edits.length > 0;
+                return applyEdits(content, edits);
             });
+        }
+        if (!replaced && text) {
+            new Notice(`⚠️ 找不到上传占位符, 图片链接: ${text}`, 0);
+        }
+    }
 
-            if (!response.ok) {
-                throw new Error(`HTTP错误! 状态码: ${response.status}`);
+    // Upload image
+    async uploadImage(file: File, profile: UploadProfile, sourceUrl: string = 'clipboard', notePath: string = '',
+                      http: HttpClient = this.createHttpClient()): Promise<UploadedImage> {
+        try {
+            const original = file;
+            const options: ProcessingOptions | null = this.settings.processImages ? {
+                maxWidth: this.settings.maxImageWidth,
+                format: this.settings.outputFormat,
+                quality: this.settings.outputQuality,
+                stripMetadata: this.settings.stripMetadata,
+                watermarkText: this.settings.watermarkText,
+                watermarkPosition: this.settings.watermarkPosition
+            } : null;
+
+            // 按原图内容和处理选项的哈希查找缓存, 相同图片直接复用已上传的地址, 不必先处理图片;
+            // 修改处理选项后按新选项重新上传
+            const originalHash = await sha256Hex(await original.arrayBuffer());
+            const cacheKey = options ? await sha256Hex(`${originalHash}:${JSON.stringify(options)}`) : originalHash;
+            const cached = this.settings.enableUploadCache ? this.uploadCache.get(cacheKey, profile.id) : undefined;
+            if (cached) {
+                console.log(`♻️ 使用缓存: ${sourceUrl} -> ${cached.url}`);
+                return { url: cached.url, file: original, savedBytes: 0 };
             }
 
-            const result = await response.json();
-            return result.data.url;
+            // 上传前处理图片 (缩放、转码、去除元数据、水印)
+            if (options) file = (await processImage(file, options)).file;
+            const savedBytes = Math.max(0, original.size - file.size);
+            // 请求模板中的 {hash} 是实际上传的文件的哈希
+            const hash = file === original ? originalHash : await sha256Hex(await file.arrayBuffer());
+
+            console.log(`上传图片类型: ${file.type}, 文件名: ${file.name}, 大小: ${file.size} 字节, 配置: ${profile.name}`);
+            const context = await createTemplateContext(file, original.name, notePath, hash);
+            const { url, deleteKey } = await createUploader(profile, http, this.auth).upload(file, context);
+
+            if (url) {
+                await this.uploadHistory.add({
+                    url,
+                    deleteKey,
+                    sourceUrl,
+                    notePath,
+                    profileId: profile.id,
+                    size: file.size,
+                    createdAt: Date.now()
+                });
+            }
+            if (this.settings.enableUploadCache && url) {
+                await this.uploadCache.add({
+                    hash: cacheKey,
+                    url,
+                    sourceUrl,
+                    profileId: profile.id,
+                    size: file.size,
+                    createdAt: Date.now()
+                });
+            }
+            return { url, file, savedBytes };
         } catch (error) {
             console.error("上传错误:", error);
             throw error;
@@ -357,19 +1768,18 @@ export default class ImageUploaderPlugin extends Plugin {
         });
     }
 
-    // Check if URL is blacklisted
-    isUrlBlacklisted(url: string): boolean {
-        try {
-            const urlLower = url.toLowerCase();
-            return this.settings.blacklistDomains.some(domain => {
-                const domainLower = domain.toLowerCase().trim();
-                const urlWithoutProtocol = urlLower.replace(/^https?:\/\//, '');
-                const domainWithoutProtocol = domainLower.replace(/^https?:\/\//, '');
-                return urlWithoutProtocol.startsWith(domainWithoutProtocol);
-            });
-        } catch {
-            return false;
-        }
+    // 按上传规则检查图片地址 (主机、路径、扩展名)
+    checkUrlRules(url: string): RuleCheck {
+        return checkUrl(this.settings.uploadRules, this.settings.uploadRuleMode, url);
+    }
+
+    isUrlExcluded(url: string): boolean {
+        return this.checkUrlRules(url).excluded;
+    }
+
+    // 按上传规则检查笔记 (路径、标签、frontmatter), 被排除的笔记中的图片都不上传
+    checkNoteRules(file: TFile | null): RuleCheck {
+        return checkNote(this.app, this.settings.uploadRules, file);
     }
 
     // 从URL中提取文件名
@@ -386,93 +1796,131 @@ export default class ImageUploaderPlugin extends Plugin {
 
     // 根据文件扩展名获取MIME类型
     private getMimeType(url: string): string {
-        const ext = url.split('.').pop()?.toLowerCase();
-        const mimeTypes: Record<string, string> = {
-            'png': 'image/png',
-            'jpg': 'image/jpeg',
-            'jpeg': 'image/jpeg',
-            'gif': 'image/gif',
-            'webp': 'image/webp',
-            'bmp': 'image/bmp'
-        };
-        return mimeTypes[ext || ''] || 'image/jpeg';
+        return getMimeTypeByName(url) || 'image/jpeg';
     }
 
     // 获取光标位置的图片信息
-    private getImageAtCursor(line: string, cursorCh: number): { url: string, originalMark: string } | null {
-        const imageRegex = /!\[.*?\]\((.*?)\)/g;
-        let match;
-
-        while ((match = imageRegex.exec(line)) !== null) {
-            const start = match.index;
-            const end = start + match[0].length;
-            
+    private getImageAtCursor(editor: Editor): ImageLink | null {
+        // 解析整篇笔记, 引用式图片需要找到对应的定义
+        const offset = editor.posToOffset(editor.getCursor());
+        return findImageLinks(editor.getValue()).find(link =>
             // 检查光标是否在图片标记内
-            if (cursorCh >= start && cursorCh <= end) {
-                return {
-                    url: match[1],
-                    originalMark: match[0]
-                };
+            offset >= link.index && offset <= link.index + link.originalMark.length
+        ) || null;
+    }
+
+    // 读取图片内容: 远程图片通过 requestUrl 下载, 本地附件通过链接解析后从 vault 读取
+    private async loadImageFile(image: ImageLink, sourcePath: string,
+                                http: HttpClient): Promise<{ file: File, localFile?: TFile }> {
+        if (!isRemoteUrl(image.url)) {
+            const localFile = this.app.metadataCache.getFirstLinkpathDest(getLinkPath(image), sourcePath);
+            if (!localFile) {
+                throw new Error(`找不到本地图片: ${image.url}`);
             }
+            const data = await this.app.vault.readBinary(localFile);
+            const file = new File([data], localFile.name, { type: this.getMimeType(localFile.name) });
+            return { file, localFile };
         }
 
-        return null;
+        return { file: await this.downloadImage(image.url, http) };
+    }
+
+    // 通过 requestUrl 下载远程图片
+    private async downloadImage(url: string, http: HttpClient): Promise<File> {
+        const response = await http.request({
+            url,
+            method: "GET",
+            headers: {
+                'Accept': 'image/*'
+            }
+        });
+
+        if (response.status !== 200) {
+            throw new Error(`下载失败: HTTP ${response.status}`);
+        }
+
+        // 处理文件
+        const fileName = this.getUrlFileName(url);
+        const mimeType = response.headers["content-type"] || this.getMimeType(url);
+        return new File([response.arrayBuffer], fileName, { type: mimeType });
+    }
+
+    // 上传成功后按设置保留、移到回收站或删除本地附件; 仍被任何笔记或画布引用的附件始终保留
+    private async cleanupLocalFiles(files: TFile[], sourcePath: string, newContent: string) {
+        if (this.settings.localFileAction === 'keep' || files.length === 0) return;
+
+        // 当前笔记或画布中仍然保留的本地引用 (例如上传失败的图片)
+        const stillLinked = new Set(sourcePath.endsWith('.canvas')
+            ? this.getCanvasFilePaths(sourcePath, newContent) ?? []
+            : findImageLinks(newContent)
+                .filter(link => !isRemoteUrl(link.url))
+                .map(link => this.app.metadataCache.getFirstLinkpathDest(getLinkPath(link), sourcePath)?.path));
+
+        // 画布的 file 节点不在 resolvedLinks 中, 需要读取其他所有画布; 无法解析的画布可能引用任何附件
+        const canvasReferences = new Set<string>();
+        for (const canvas of this.app.vault.getFiles().filter(file => file.extension === 'canvas' && file.path !== sourcePath)) {
+            const paths = this.getCanvasFilePaths(canvas.path, await this.app.vault.cachedRead(canvas));
+            if (!paths) return;
+            paths.forEach(path => canvasReferences.add(path));
+        }
+
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+        for (const file of files) {
+            if (stillLinked.has(file.path) || canvasReferences.has(file.path)) continue;
+            const referencedElsewhere = Object.keys(resolvedLinks).some(source =>
+                source !== sourcePath && resolvedLinks[source][file.path]);
+            if (referencedElsewhere) continue;
+
+            try {
+                if (this.settings.localFileAction === 'trash') {
+                    await this.app.vault.trash(file, true);
+                } else {
+                    await this.app.vault.delete(file);
+                }
+            } catch (error) {
+                console.error(`处理本地附件失败: ${file.path}`, error);
+            }
+        }
     }
 
     // 上传单个图片
-    private async uploadSingleImage(editor: Editor, image: { url: string, originalMark: string }, line: number) {
+    private async uploadSingleImage(editor: Editor, image: ImageLink, noteFile: TFile | null) {
         try {
-            // 检查是否在黑名单中
-            if (this.isUrlBlacklisted(image.url)) {
-                new Notice('此图片域名在黑名单中');
+            // 检查上传规则
+            const check = [this.checkNoteRules(noteFile), this.checkUrlRules(image.url)].find(c => c.excluded);
+            if (check) {
+                new Notice(`此图片被上传规则排除: ${check.reason}`);
                 return;
             }
 
             // 检查是否已经是上传后的地址
-            if (image.url.startsWith(new URL(this.settings.apiUrl).origin)) {
+            if (this.isUploadedUrl(image.url)) {
                 new Notice('此图片已经上传过了');
                 return;
             }
 
             new Notice('开始上传图片...');
 
-            // 下载图片
-            const response = await requestUrl({
-                url: image.url,
-                method: "GET",
-                headers: {
-                    'Accept': 'image/*'
-                }
-            });
-
-            if (response.status !== 200) {
-                throw new Error(`下载失败: HTTP ${response.status}`);
-            }
-
-            // 处理文件
-            const fileName = this.getUrlFileName(image.url);
-            const mimeType = response.headers["content-type"] || this.getMimeType(image.url);
-            const file = new File([response.arrayBuffer], fileName, { type: mimeType });
+            // 下载远程图片或读取本地附件
+            const sourcePath = noteFile?.path ?? '';
+            const http = this.createHttpClient();
+            const { file, localFile } = await this.loadImageFile(image, sourcePath, http);
 
             // 上传图片
-            const newUrl = await this.uploadImage(file);
+            const { url: newUrl } = await this.uploadImage(file, this.getProfileForAttachment('image', noteFile),
+                localFile?.path ?? image.url, sourcePath, http);
             
             if (newUrl) {
-                // 保存当前光标位置
-                const cursor = editor.getCursor();
-                
-                // 替换当前行中的图片链接
-                const newMark = image.originalMark.replace(image.url, newUrl);
-                const currentLine = editor.getLine(line);
-                const newLine = currentLine.replace(image.originalMark, newMark);
-                
-                // 只替换当前行的内容
-                const from = { line: line, ch: 0 };
-                const to = { line: line, ch: currentLine.length };
-                editor.replaceRange(newLine, from, to);
-                
-                // 恢复光标位置
-                editor.setCursor(cursor);
+                // 只替换图片链接所在的范围, 链接在上传期间移动时按原文重新定位
+                const applied = applyEditsToEditor(editor, [buildRemoteEdit(image, newUrl)]);
+                if (applied.length === 0) {
+                    new Notice(`⚠️ 图片链接在上传期间被修改, 未替换。新地址: ${newUrl}`);
+                    return;
+                }
+
+                if (localFile) {
+                    await this.cleanupLocalFiles([localFile], sourcePath, editor.getValue());
+                }
 
                 new Notice('✅ 上传成功');
                 console.log(`✅ 成功: ${image.url} -> ${newUrl}`);
@@ -0,0 +1,133 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { UploadProfile } from './profiles';
+
+// 图床迁移: 按来源主机选择图片, 重新上传到目标配置, 并按新旧地址映射改写笔记
+
+export interface MigrationItem {
+    url: string;
+    // 引用该图片的笔记路径
+    notes: string[];
+}
+
+export interface MigrationPlan {
+    pattern: string;
+    profileId: string;
+    items: MigrationItem[];
+}
+
+export interface MigrationResult {
+    pattern: string;
+    profile: string;
+    createdAt: string;
+    // 旧地址 → 新地址
+    mappings: Record<string, string>;
+    failed: Array<{ url: string, error: string }>;
+}
+
+export interface MigrationHost {
+    app: App;
+    settings: { profiles: UploadProfile[] };
+    // 扫描所有笔记, 生成迁移计划 (不修改任何内容)
+    buildMigrationPlan(pattern: string, profileId: string): Promise<MigrationPlan>;
+    runMigration(plan: MigrationPlan): Promise<void>;
+}
+
+// 选择来源主机和目标配置, 先预览再执行
+export class MigrationModal extends Modal {
+    private pattern = '';
+    private profileId: string;
+    private plan: MigrationPlan | null = null;
+    private previewEl: HTMLElement;
+
+    constructor(private host: MigrationHost) {
+        super(host.app);
+        this.profileId = host.settings.profiles[0]?.id ?? '';
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('迁移图片到其他图床');
+
+        new Setting(contentEl)
+            .setName('来源主机')
+            .setDesc('例如 old.example.com, 或用 *.example.com 匹配所有子域名')
+            .addText(text => text
+                .setPlaceholder('old.example.com')
+                .onChange(value => {
+                    this.pattern = value.trim();
+                    this.resetPreview();
+                }));
+
+        new Setting(contentEl)
+            .setName('目标配置')
+            .addDropdown(dropdown => {
+                this.host.settings.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+                dropdown
+                    .setValue(this.profileId)
+                    .onChange(value => {
+                        this.profileId = value;
+                        this.resetPreview();
+                    });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('预览')
+                .setCta()
+                .onClick(() => this.preview()));
+
+        this.previewEl = contentEl.createDiv();
+    }
+
+    private resetPreview() {
+        this.plan = null;
+        this.previewEl?.empty();
+    }
+
+    private async preview() {
+        if (!this.pattern) {
+            new Notice('请填写来源主机');
+            return;
+        }
+        this.previewEl.empty();
+        this.previewEl.createEl('p', { text: '正在扫描笔记...' });
+        const plan = await this.host.buildMigrationPlan(this.pattern, this.profileId);
+        this.plan = plan;
+        this.previewEl.empty();
+
+        if (plan.items.length === 0) {
+            this.previewEl.createEl('p', { text: '没有找到匹配的图片' });
+            return;
+        }
+
+        const notes = new Set(plan.items.flatMap(item => item.notes));
+        this.previewEl.createEl('p', {
+            text: `将迁移 ${plan.items.length} 张图片, 涉及 ${notes.size} 个笔记。以下为预览, 尚未修改任何内容。`,
+            cls: 'width-settings-desc'
+        });
+
+        const tableContainer = this.previewEl.createDiv('upload-cache-table');
+        const table = tableContainer.createEl('table');
+        const header = table.createEl('tr');
+        ['图片地址', '引用笔记'].forEach(text => header.createEl('th', { text }));
+        plan.items.forEach(item => {
+            const row = table.createEl('tr');
+            row.createEl('td').createEl('a', { text: item.url, href: item.url });
+            row.createEl('td', { text: item.notes.join(', ') });
+        });
+
+        new Setting(this.previewEl)
+            .addButton(button => button
+                .setButtonText(`开始迁移 (${plan.items.length})`)
+                .setWarning()
+                .onClick(() => {
+                    if (!this.plan) return;
+                    this.close();
+                    this.host.runMigration(this.plan);
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,49 @@
+// 并发控制: 固定数量的工作协程 + 按主机的请求速率限制
+
+// 用 concurrency 个工作协程处理所有任务, 一个任务完成立即开始下一个, 结果按输入顺序返回;
+// shouldStop 返回 true 后不再开始新任务, 未开始的任务没有结果
+export async function runPool<T, R>(items: T[], concurrency: number,
+                                    worker: (item: T, index: number) => Promise<R>,
+                                    shouldStop?: () => boolean): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const runWorker = async () => {
+        while (next < items.length && !shouldStop?.()) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runWorker);
+    await Promise.all(workers);
+    return results;
+}
+
+// 每个主机每秒最多 N 个请求, 超出的请求排队等待
+export class HostRateLimiter {
+    private nextSlot = new Map<string, number>();
+
+    constructor(private getRequestsPerSecond: () => number) {}
+
+    async acquire(url: string): Promise<void> {
+        const rps = this.getRequestsPerSecond();
+        if (!(rps > 0)) return;
+
+        let host: string;
+        try {
+            host = new URL(url).host;
+        } catch {
+            return;
+        }
+
+        const now = Date.now();
+        const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+        this.nextSlot.set(host, slot + 1000 / rps);
+
+        const wait = slot - now;
+        if (wait > 0) {
+            await new Promise(resolve => setTimeout(resolve, wait));
+        }
+    }
+}
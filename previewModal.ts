@@ -0,0 +1,161 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { UploadItemResult } from './main';
+import { ImageLink } from './imageLinks';
+import { describeAttempts } from './request';
+
+// 上传当前笔记前的预览: 列出每张图片及计划的操作, 勾选后执行, 完成后显示逐项结果
+export type PlannedAction = 'upload' | 'local' | 'skip' | 'blacklisted';
+
+export interface PlannedImage {
+    image: ImageLink;
+    action: PlannedAction;
+    // 被上传规则排除时的原因
+    reason?: string;
+}
+
+export interface UploadPreviewHost {
+    // 上传选中的图片并改写链接, 返回逐项结果
+    run(images: ImageLink[]): Promise<UploadItemResult[]>;
+    // 按当前笔记内容重新生成指定地址的计划, 用于重试失败项
+    replan(urls: string[]): PlannedImage[];
+}
+
+const ACTION_LABEL: Record<PlannedAction, string> = {
+    upload: '上传',
+    local: '上传本地附件',
+    skip: '跳过 (已上传)',
+    blacklisted: '跳过 (被规则排除)'
+};
+
+const STATUS_LABEL: Record<UploadItemResult['status'], string> = {
+    success: '✅ 成功',
+    failed: '❌ 失败',
+    skipped: '⏭️ 已存在',
+    blacklisted: '⛔ 被规则排除'
+};
+
+export class UploadPreviewModal extends Modal {
+    private running = false;
+
+    constructor(app: App, private plan: PlannedImage[], private host: UploadPreviewHost) {
+        super(app);
+    }
+
+    onOpen() {
+        this.titleEl.setText('上传当前笔记中的图片');
+        this.renderPlan();
+    }
+
+    private renderPlan() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        // 默认只勾选需要上传的图片; 已上传和被规则排除的图片也可以手动勾选, 以用户的选择为准
+        const selected = new Set(this.plan.filter(item => item.action === 'upload' || item.action === 'local'));
+        contentEl.createEl('p', {
+            text: `找到 ${this.plan.length} 张图片。勾选要上传的图片, 未勾选的图片保持不变。`,
+            cls: 'width-settings-desc'
+        });
+
+        const tableContainer = contentEl.createDiv('upload-cache-table');
+        const table = tableContainer.createEl('table');
+        const header = table.createEl('tr');
+        header.createEl('th');
+        ['图片', '计划'].forEach(text => header.createEl('th', { text }));
+
+        let startButton: HTMLButtonElement;
+        const updateButton = () => {
+            startButton.setText(`开始上传 (${selected.size})`);
+            startButton.disabled = selected.size === 0;
+        };
+
+        this.plan.forEach(item => {
+            const row = table.createEl('tr');
+            const checkbox = row.createEl('td').createEl('input', { type: 'checkbox' });
+            checkbox.checked = selected.has(item);
+            checkbox.onchange = () => {
+                if (checkbox.checked) selected.add(item);
+                else selected.delete(item);
+                updateButton();
+            };
+            row.createEl('td', { text: item.image.url });
+            const action = row.createEl('td', { text: ACTION_LABEL[item.action] });
+            if (item.reason) action.createDiv({ text: item.reason, cls: 'upload-preview-attempts' });
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(button => {
+                startButton = button.buttonEl;
+                button
+                    .setCta()
+                    .onClick(() => this.run(this.plan.filter(item => selected.has(item)).map(item => item.image)));
+            });
+        updateButton();
+    }
+
+    private async run(images: ImageLink[]) {
+        if (this.running) return;
+        this.running = true;
+        this.contentEl.empty();
+        this.contentEl.createEl('p', { text: `正在上传 ${images.length} 张图片...` });
+
+        try {
+            const results = await this.host.run(images);
+            this.renderResults(results);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private renderResults(results: UploadItemResult[]) {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        const count = (status: UploadItemResult['status']) => results.filter(r => r.status === status).length;
+        contentEl.createEl('p', {
+            text: `✅ ${count('success')} 个成功  ❌ ${count('failed')} 个失败  ⏭️ ${count('skipped')} 个已存在  ⛔ ${count('blacklisted')} 个被规则排除`,
+            cls: 'width-settings-desc'
+        });
+
+        const tableContainer = contentEl.createDiv('upload-cache-table');
+        const table = tableContainer.createEl('table');
+        const header = table.createEl('tr');
+        ['图片', '结果', '新地址 / 错误'].forEach(text => header.createEl('th', { text }));
+        results.forEach(result => {
+            const row = table.createEl('tr');
+            row.createEl('td', { text: result.url });
+            row.createEl('td', { text: STATUS_LABEL[result.status] });
+            const detail = row.createEl('td');
+            if (result.newUrl) {
+                detail.createEl('a', { text: result.newUrl, href: result.newUrl });
+            } else if (result.error) {
+                detail.createDiv({ text: result.error });
+                if (result.attempts && result.attempts.length > 0) {
+                    detail.createDiv({ text: `请求记录: ${describeAttempts(result.attempts)}`, cls: 'upload-preview-attempts' });
+                }
+            }
+        });
+
+        const failedUrls = results.filter(r => r.status === 'failed').map(r => r.url);
+        const buttons = new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('关闭')
+                .onClick(() => this.close()));
+        if (failedUrls.length > 0) {
+            buttons.addButton(button => button
+                .setButtonText(`重试失败项 (${failedUrls.length})`)
+                .setCta()
+                .onClick(() => {
+                    const plan = this.host.replan(failedUrls);
+                    this.run(plan.map(item => item.image));
+                }));
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,219 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { RequestBodyType } from './requestTemplate';
+
+// 上传后端类型: 自定义接口或内置的存储后端
+export type BackendType = 'api' | 's3' | 'webdav' | 'github';
+
+// 内置后端的密钥 (S3 Secret Access Key、WebDAV 密码、GitHub 令牌) 同样保存在 SecretStore 中
+export interface S3Config {
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    // MinIO 等自建服务通常需要 path-style 地址
+    pathStyle: boolean;
+    pathPrefix: string;
+    publicUrl: string;
+}
+
+export interface WebDavConfig {
+    serverUrl: string;
+    username: string;
+    pathPrefix: string;
+    publicUrl: string;
+}
+
+export interface GitHubConfig {
+    apiBase: string;
+    owner: string;
+    repo: string;
+    branch: string;
+    pathPrefix: string;
+    publicUrl: string;
+}
+
+// 自定义接口的认证方式; 令牌、密码等密钥不保存在这里, 见 SecretStore
+export type AuthType = 'none' | 'bearer' | 'oauth2' | 'basic' | 'hmac';
+
+export interface AuthConfig {
+    type: AuthType;
+    // basic
+    username: string;
+    // oauth2 client credentials
+    tokenUrl: string;
+    clientId: string;
+    scope: string;
+    // hmac
+    keyId: string;
+    keyIdHeader: string;
+    signatureHeader: string;
+    timestampHeader: string;
+}
+
+// 上传配置: 每个配置对应一个独立的上传目标
+export interface UploadProfile {
+    id: string;
+    name: string;
+    backend: BackendType;
+    apiUrl: string;
+    method: string;
+    customHeaders: string[];
+    // 请求模板: 请求体格式、图片字段名、附加字段 ("名称: 值") 和上传文件名, 可以使用模板变量
+    bodyType: RequestBodyType;
+    fieldName: string;
+    extraFields: string[];
+    fileNameTemplate: string;
+    jsonPath: string;
+    // 可选的删除请求: 地址模板可以使用 {token} (从上传响应中按 deleteJsonPath 取得) 和 {url}
+    deleteUrl: string;
+    deleteMethod: string;
+    deleteJsonPath: string;
+    auth: AuthConfig;
+    s3: S3Config;
+    webdav: WebDavConfig;
+    github: GitHubConfig;
+}
+
+// 配置选择规则: 按文件夹、标签或 frontmatter 选择上传配置, 按顺序第一个匹配的生效
+export type ProfileRuleType = 'folder' | 'tag' | 'frontmatter';
+
+export interface ProfileRule {
+    type: ProfileRuleType;
+    value: string;
+    profileId: string;
+}
+
+export const PLACEHOLDER_API_URL = 'http://your-api.com/upload';
+
+export function createProfileId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substring(2, 6);
+}
+
+export function createProfile(name: string, overrides: Partial<UploadProfile> = {}): UploadProfile {
+    return {
+        id: createProfileId(),
+        name,
+        backend: 'api',
+        apiUrl: PLACEHOLDER_API_URL,
+        method: 'POST',
+        customHeaders: [],
+        bodyType: 'multipart',
+        fieldName: 'image',
+        extraFields: [],
+        fileNameTemplate: '',
+        jsonPath: 'data.url',
+        deleteUrl: '',
+        deleteMethod: 'DELETE',
+        deleteJsonPath: '',
+        auth: {
+            type: 'none',
+            username: '',
+            tokenUrl: '',
+            clientId: '',
+            scope: '',
+            keyId: '',
+            keyIdHeader: 'X-Key-Id',
+            signatureHeader: 'X-Signature',
+            timestampHeader: 'X-Timestamp'
+        },
+        s3: {
+            endpoint: '',
+            region: 'us-east-1',
+            bucket: '',
+            accessKeyId: '',
+            pathStyle: true,
+            pathPrefix: '',
+            publicUrl: ''
+        },
+        webdav: {
+            serverUrl: '',
+            username: '',
+            pathPrefix: '',
+            publicUrl: ''
+        },
+        github: {
+            apiBase: 'https://api.github.com',
+            owner: '',
+            repo: '',
+            branch: 'main',
+            pathPrefix: '',
+            publicUrl: ''
+        },
+        ...overrides
+    };
+}
+
+// 为旧版本保存的配置补全新增字段
+export function normalizeProfile(profile: Partial<UploadProfile>): UploadProfile {
+    const defaults = createProfile(profile.name || 'Profile');
+    return {
+        ...defaults,
+        ...profile,
+        auth: { ...defaults.auth, ...profile.auth },
+        s3: { ...defaults.s3, ...profile.s3 },
+        webdav: { ...defaults.webdav, ...profile.webdav },
+        github: { ...defaults.github, ...profile.github }
+    } as UploadProfile;
+}
+
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+function normalizeFolder(folder: string): string {
+    return folder.trim().replace(/^\/+|\/+$/g, '');
+}
+
+// 检查单条规则是否匹配当前文件
+export function ruleMatches(app: App, rule: ProfileRule, file: TFile): boolean {
+    const value = rule.value.trim();
+    if (!value) return false;
+
+    switch (rule.type) {
+        case 'folder': {
+            const folder = normalizeFolder(value);
+            return folder === '' || file.path.startsWith(folder + '/');
+        }
+        case 'tag': {
+            const cache = app.metadataCache.getFileCache(file);
+            if (!cache) return false;
+            const wanted = normalizeTag(value);
+            // 嵌套标签: 规则 blog 同时匹配 #blog/draft
+            return (getAllTags(cache) || [])
+                .map(normalizeTag)
+                .some(tag => tag === wanted || tag.startsWith(wanted + '/'));
+        }
+        case 'frontmatter': {
+            const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+            if (!frontmatter) return false;
+            // 支持 "key" (存在且不为 false) 和 "key=value" 两种写法
+            const eq = value.indexOf('=');
+            const key = (eq === -1 ? value : value.substring(0, eq)).trim();
+            if (!(key in frontmatter)) return false;
+            const actual = frontmatter[key];
+            if (eq === -1) return actual !== false && actual !== null;
+            const expected = value.substring(eq + 1).trim().toLowerCase();
+            const actualValues: unknown[] = Array.isArray(actual) ? actual : [actual];
+            return actualValues.some(v => String(v).trim().toLowerCase() === expected);
+        }
+        default:
+            return false;
+    }
+}
+
+// 为指定文件选择上传配置, 没有匹配规则时使用默认配置
+export function resolveProfile(app: App, profiles: UploadProfile[], rules: ProfileRule[],
+                               defaultProfileId: string, file: TFile | null): UploadProfile {
+    if (profiles.length === 0) {
+        throw new Error('没有可用的上传配置');
+    }
+
+    if (file) {
+        for (const rule of rules) {
+            const profile = profiles.find(p => p.id === rule.profileId);
+            if (profile && ruleMatches(app, rule, file)) return profile;
+        }
+    }
+
+    return profiles.find(p => p.id === defaultProfileId) || profiles[0];
+}
@@ -0,0 +1,93 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf, moment } from 'obsidian';
+import { UploadQueue } from './uploadQueue';
+
+export const UPLOAD_QUEUE_VIEW = 'image-uploader-queue';
+
+// 离线上传队列: 列出等待上传的本地附件, 可以立即重试或移除
+export class UploadQueueView extends ItemView {
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, private queue: UploadQueue) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return UPLOAD_QUEUE_VIEW;
+    }
+
+    getDisplayText(): string {
+        return '待上传图片';
+    }
+
+    getIcon(): string {
+        return 'upload-cloud';
+    }
+
+    async onOpen() {
+        this.unsubscribe = this.queue.onChange(() => this.render());
+        this.render();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    private render() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('upload-queue-view');
+
+        const items = this.queue.getAll();
+        const header = container.createDiv('upload-queue-header');
+        header.createEl('span', {
+            text: this.queue.isFlushing() ? `正在上传... (${items.length} 张待上传)` : `${items.length} 张图片待上传`
+        });
+
+        const retry = header.createEl('button', { text: '立即重试' });
+        retry.disabled = items.length === 0 || this.queue.isFlushing();
+        retry.onclick = async () => {
+            if (!navigator.onLine) {
+                new Notice('当前离线, 联网后会自动上传');
+                return;
+            }
+            const success = await this.queue.flush();
+            new Notice(`✅ ${success} 张图片上传成功, ${this.queue.size} 张仍在队列中`);
+        };
+
+        if (items.length === 0) {
+            container.createEl('p', { text: '没有等待上传的图片', cls: 'upload-queue-empty' });
+            return;
+        }
+
+        items.forEach(item => {
+            const row = container.createDiv('upload-queue-item');
+            const name = row.createEl('a', { text: item.path, cls: 'upload-queue-path' });
+            name.onclick = () => this.openFile(item.path);
+
+            const note = row.createDiv('upload-queue-meta');
+            note.appendText('笔记: ');
+            note.createEl('a', { text: item.notePath }).onclick = () => this.openFile(item.notePath);
+
+            row.createDiv({
+                text: `加入时间 ${moment(item.createdAt).format('YYYY-MM-DD HH:mm')} · 已尝试 ${item.attempts} 次`,
+                cls: 'upload-queue-meta'
+            });
+            if (item.lastError) {
+                row.createDiv({ text: item.lastError, cls: 'upload-queue-error' });
+            }
+
+            const remove = row.createEl('button', { text: '移出队列' });
+            remove.onclick = () => this.queue.remove(item.id);
+        });
+    }
+
+    private openFile(path: string) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            this.app.workspace.getLeaf(false).openFile(file);
+        } else {
+            new Notice(`文件不存在: ${path}`);
+        }
+    }
+}
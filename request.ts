@@ -0,0 +1,170 @@
+import { RequestUrlParam, RequestUrlResponse, requestUrl } from 'obsidian';
+import { HostRateLimiter } from './pool';
+
+// 统一的网络请求层: 超时、指数退避重试、Retry-After
+
+export interface RetryPolicy {
+    timeoutMs: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+// 一次批量操作共享的重试额度, 服务不可用时避免每张图片都重试到上限
+export interface RetryBudget {
+    remaining: number;
+}
+
+export interface RequestAttempt {
+    attempt: number;
+    url: string;
+    status?: number;
+    error?: string;
+    // 本次请求的耗时, 不含限速等待
+    durationMs?: number;
+    // 本次失败后等待的时间
+    delayMs?: number;
+}
+
+const RETRYABLE_STATUS = [408, 425, 429, 500, 502, 503, 504];
+// 超时、网络错误或 5xx 时原请求可能已被处理, 只有这些方法可以安全地重新发送
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+const MAX_RETRY_AFTER_MS = 60000;
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After 可以是秒数或 HTTP 日期
+export function parseRetryAfter(value: string | undefined): number | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed) * 1000;
+    const date = Date.parse(trimmed);
+    if (isNaN(date)) return null;
+    return Math.max(0, date - Date.now());
+}
+
+// 指数退避 + 抖动: 等待 [delay/2, delay) 之间的随机时间
+export function backoffDelay(policy: RetryPolicy, retry: number): number {
+    const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry));
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers || {}).find(k => k.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+}
+
+export class HttpClient {
+    // 本客户端发出的所有请求尝试 (包括最后一次), 用于错误报告
+    attempts: RequestAttempt[] = [];
+
+    constructor(private policy: RetryPolicy, private budget: RetryBudget = { remaining: Infinity },
+                private limiter?: HostRateLimiter) {}
+
+    // 发送请求, 网络错误、超时和可重试的状态码会按策略重试; POST 等非幂等请求只在 429 / 503 带有
+    // Retry-After (表示请求未被处理) 时重试, 避免重复上传;
+    // 最终仍失败时返回最后一次响应 (由调用方检查状态码), 或抛出最后一次网络错误
+    async request(params: RequestUrlParam): Promise<RequestUrlResponse> {
+        for (let attempt = 1; ; attempt++) {
+            let response: RequestUrlResponse | null = null;
+            let error: Error | null = null;
+            let started = Date.now();
+
+            try {
+                await this.limiter?.acquire(params.url);
+                started = Date.now();
+                response = await this.withTimeout(requestUrl({ ...params, throw: false }), params.url);
+            } catch (e) {
+                error = e instanceof Error ? e : new Error(String(e));
+            }
+
+            const record: RequestAttempt = {
+                attempt,
+                url: params.url,
+                status: response?.status,
+                error: error?.message,
+                durationMs: Date.now() - started
+            };
+            this.attempts.push(record);
+
+            if (response && !RETRYABLE_STATUS.includes(response.status)) {
+                return response;
+            }
+
+            const retryAfter = response && (response.status === 429 || response.status === 503)
+                ? parseRetryAfter(getHeader(response.headers, 'retry-after'))
+                : null;
+            const method = (params.method || 'GET').toUpperCase();
+            const canRetry = attempt <= this.policy.maxRetries && this.budget.remaining > 0 &&
+                (IDEMPOTENT_METHODS.includes(method) || retryAfter !== null);
+            if (!canRetry) {
+                if (response) return response;
+                throw error;
+            }
+
+            // 429 / 503 优先使用服务端给出的等待时间
+            const delay = retryAfter !== null ? Math.min(retryAfter, MAX_RETRY_AFTER_MS) : backoffDelay(this.policy, attempt - 1);
+            record.delayMs = delay;
+            this.budget.remaining--;
+
+            console.warn(`⟳ 第 ${attempt} 次请求失败, ${delay}ms 后重试: ${params.url}`,
+                response ? `HTTP ${response.status}` : error?.message);
+            await sleep(delay);
+        }
+    }
+
+    // requestUrl 无法中止, 超时后不再等待其结果
+    private withTimeout<T>(promise: Promise<T>, url: string): Promise<T> {
+        if (!(this.policy.timeoutMs > 0)) return promise;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error(`请求超时 (${this.policy.timeoutMs / 1000}s): ${url}`)),
+                this.policy.timeoutMs);
+            promise.then(
+                value => { clearTimeout(timer); resolve(value); },
+                reason => { clearTimeout(timer); reject(reason); }
+            );
+        });
+    }
+}
+
+// 把失败尝试格式化为一行说明, 用于进度中的错误信息
+export function describeAttempts(attempts: RequestAttempt[]): string {
+    return attempts
+        .map(a => `#${a.attempt} ${a.status ? `HTTP ${a.status}` : a.error || '失败'}${a.delayMs !== undefined ? ` → 等待 ${a.delayMs}ms` : ''}`)
+        .join('; ');
+}
+
+// 手动构造 multipart/form-data 请求体, requestUrl 不支持 FormData
+export async function buildMultipartBody(fields: Array<{ name: string, value: string | File }>):
+    Promise<{ body: ArrayBuffer, contentType: string }> {
+    const boundary = '----ObsidianImageUploader' + Math.random().toString(36).substring(2);
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+
+    for (const field of fields) {
+        const name = field.name.replace(/"/g, '%22');
+        if (typeof field.value === 'string') {
+            parts.push(encoder.encode(
+                `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${field.value}\r\n`));
+        } else {
+            const fileName = field.value.name.replace(/"/g, '%22');
+            parts.push(encoder.encode(
+                `--${boundary}\r\nContent-Disposition: form-data; name="${name}"; filename="${fileName}"\r\n` +
+                `Content-Type: ${field.value.type || 'application/octet-stream'}\r\n\r\n`));
+            parts.push(new Uint8Array(await field.value.arrayBuffer()));
+            parts.push(encoder.encode('\r\n'));
+        }
+    }
+    parts.push(encoder.encode(`--${boundary}--\r\n`));
+
+    const body = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        body.set(part, offset);
+        offset += part.length;
+    });
+
+    return { body: body.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+}
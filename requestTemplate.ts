@@ -0,0 +1,92 @@
+import { moment } from 'obsidian';
+import { arrayBufferToBase64, sha256Hex } from './hash';
+import { buildMultipartBody } from './request';
+
+// 请求模板: 自定义接口的请求体格式, 以及表单字段、地址和请求头中可用的变量
+//   multipart: 表单上传, 图片放在 fieldName 字段, 附加字段作为普通表单字段
+//   binary:    请求体为图片本身, Content-Type 为图片类型
+//   json:      JSON 请求体, 图片以 base64 放在 fieldName 字段, 附加字段作为字符串属性
+export type RequestBodyType = 'multipart' | 'binary' | 'json';
+
+export interface TemplateContext {
+    // 所在笔记的文件名 (不含扩展名), 没有笔记时为空
+    noteName: string;
+    // 图片原始文件名 (不含扩展名)
+    originalName: string;
+    // 上传文件的扩展名 (处理后的格式)
+    ext: string;
+    // 上传文件内容的 SHA-256
+    hash: string;
+    date: Date;
+}
+
+export async function createTemplateContext(file: File, originalName: string, notePath: string,
+                                            hash?: string): Promise<TemplateContext> {
+    const baseName = (name: string) => {
+        const fileName = name.split('/').pop() ?? '';
+        const dot = fileName.lastIndexOf('.');
+        return dot > 0 ? fileName.substring(0, dot) : fileName;
+    };
+    const nameExt = file.name.includes('.') ? file.name.split('.').pop() ?? '' : '';
+    return {
+        noteName: notePath ? baseName(notePath) : '',
+        originalName: baseName(originalName) || 'image',
+        ext: (nameExt || file.type.split('/')[1]?.split('+')[0] || 'png').toLowerCase(),
+        hash: hash || await sha256Hex(await file.arrayBuffer()),
+        date: new Date()
+    };
+}
+
+// 替换 {noteName} {originalName} {ext} {hash} {hash:8} {date} {date:YYYY/MM} 等变量;
+// 未知变量保持原样, encode 用于对变量值编码 (例如地址中的路径)
+export function renderTemplate(template: string, context: TemplateContext,
+                               encode: (value: string) => string = value => value): string {
+    return template.replace(/\{(\w+)(?::([^{}]+))?\}/g, (match, name: string, arg: string | undefined) => {
+        switch (name) {
+            case 'noteName':
+                return encode(context.noteName);
+            case 'originalName':
+                return encode(context.originalName);
+            case 'ext':
+                return encode(context.ext);
+            case 'hash': {
+                const length = arg ? parseInt(arg) : NaN;
+                return encode(length > 0 ? context.hash.substring(0, length) : context.hash);
+            }
+            case 'date':
+                return encode(moment(context.date).format(arg || 'YYYY-MM-DD'));
+            default:
+                return match;
+        }
+    });
+}
+
+// 解析 "名称: 值" 形式的行, 只按第一个冒号分割, 值中可以包含冒号
+export function parseFieldLines(lines: string[]): Array<{ name: string, value: string }> {
+    return lines
+        .map(line => {
+            const colon = line.indexOf(':');
+            if (colon === -1) return null;
+            return { name: line.substring(0, colon).trim(), value: line.substring(colon + 1).trim() };
+        })
+        .filter((field): field is { name: string, value: string } => !!field && !!field.name);
+}
+
+// 按模板生成请求体
+export async function buildTemplateBody(bodyType: RequestBodyType, file: File, fieldName: string,
+                                        fields: Array<{ name: string, value: string }>):
+    Promise<{ body: ArrayBuffer | string, contentType: string }> {
+    switch (bodyType) {
+        case 'binary':
+            return { body: await file.arrayBuffer(), contentType: file.type || 'application/octet-stream' };
+        case 'json': {
+            const json: Record<string, string> = {};
+            fields.forEach(field => json[field.name] = field.value);
+            json[fieldName] = arrayBufferToBase64(await file.arrayBuffer());
+            return { body: JSON.stringify(json), contentType: 'application/json' };
+        }
+        case 'multipart':
+        default:
+            return buildMultipartBody([...fields, { name: fieldName, value: file }]);
+    }
+}
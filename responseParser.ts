@@ -0,0 +1,158 @@
+// 上传响应解析: 根据 jsonPath 从接口响应中提取图片地址
+
+export interface UploadResponse {
+    status: number;
+    headers: Record<string, string>;
+    text: string;
+}
+
+type PathToken =
+    | { type: 'key', name: string }
+    | { type: 'index', index: number }
+    | { type: 'wildcard' };
+
+// 解析路径表达式, 支持 data.url / files[0].link / files[*].link / $['a.b'] / items[-1]
+export function parseJsonPath(path: string): PathToken[] {
+    const tokens: PathToken[] = [];
+    let expr = path.trim();
+    if (expr.startsWith('$')) expr = expr.substring(1);
+
+    let i = 0;
+    while (i < expr.length) {
+        const ch = expr[i];
+        if (ch === '.') {
+            i++;
+            continue;
+        }
+        if (ch === '[') {
+            const end = expr.indexOf(']', i);
+            if (end === -1) throw new Error(`JSON路径语法错误: "${path}" 缺少 "]"`);
+            const inner = expr.substring(i + 1, end).trim();
+            i = end + 1;
+            if (inner === '*') {
+                tokens.push({ type: 'wildcard' });
+            } else if (/^-?\d+$/.test(inner)) {
+                tokens.push({ type: 'index', index: parseInt(inner) });
+            } else if (/^(['"]).*\1$/.test(inner)) {
+                tokens.push({ type: 'key', name: inner.substring(1, inner.length - 1) });
+            } else {
+                throw new Error(`JSON路径语法错误: 无法识别 "[${inner}]"`);
+            }
+            continue;
+        }
+        // 普通键名一直读到下一个 "." 或 "["
+        let end = i;
+        while (end < expr.length && expr[end] !== '.' && expr[end] !== '[') end++;
+        const name = expr.substring(i, end);
+        tokens.push(name === '*' ? { type: 'wildcard' } : { type: 'key', name });
+        i = end;
+    }
+    return tokens;
+}
+
+function formatTokens(tokens: PathToken[]): string {
+    return tokens.map((token, idx) => {
+        if (token.type === 'index') return `[${token.index}]`;
+        if (token.type === 'wildcard') return idx === 0 ? '*' : '.*';
+        return idx === 0 ? token.name : `.${token.name}`;
+    }).join('') || '$';
+}
+
+function describe(value: unknown): string {
+    if (value === undefined) return 'undefined';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return `数组(长度 ${value.length})`;
+    return typeof value;
+}
+
+// 对 JSON 对象求值, 返回所有匹配的值; 路径无法解析时抛出说明具体位置的错误
+export function evaluateJsonPath(data: unknown, path: string): unknown[] {
+    const tokens = parseJsonPath(path);
+    let nodes: unknown[] = [data];
+
+    tokens.forEach((token, idx) => {
+        const next: unknown[] = [];
+        nodes.forEach(node => {
+            if (token.type === 'wildcard') {
+                if (Array.isArray(node)) next.push(...node);
+                else if (node && typeof node === 'object') {
+                    const record = node as Record<string, unknown>;
+                    Object.keys(record).forEach(key => next.push(record[key]));
+                }
+            } else if (token.type === 'index') {
+                if (Array.isArray(node)) {
+                    const index = token.index < 0 ? node.length + token.index : token.index;
+                    if (index >= 0 && index < node.length) next.push(node[index]);
+                }
+            } else if (node && typeof node === 'object' && !Array.isArray(node)) {
+                const record = node as Record<string, unknown>;
+                if (Object.prototype.hasOwnProperty.call(record, token.name)) next.push(record[token.name]);
+            }
+        });
+
+        if (next.length === 0) {
+            const resolved = formatTokens(tokens.slice(0, idx));
+            const actual = nodes.length === 1 ? describe(nodes[0]) : `${nodes.length} 个值`;
+            throw new Error(`JSON路径 "${path}" 无法解析: 在 "${resolved}" 处找不到 "${formatTokens([token])}" (当前值: ${actual})`);
+        }
+        nodes = next;
+    });
+
+    return nodes;
+}
+
+function isUrlLike(value: string): boolean {
+    return /^(https?:\/\/|\/)\S+$/i.test(value);
+}
+
+function resolveAgainst(url: string, baseUrl?: string): string {
+    if (!baseUrl) return url;
+    try {
+        return new URL(url, baseUrl).toString();
+    } catch {
+        return url;
+    }
+}
+
+// 从上传响应中提取图片地址:
+// 1. JSON 响应按 jsonPath 求值, 取第一个字符串结果
+// 2. 非 JSON 响应依次尝试 Location 响应头和纯文本正文
+export function extractImageUrl(response: UploadResponse, jsonPath: string, baseUrl?: string): string {
+    const text = response.text.trim();
+    const location = response.headers['location'];
+
+    let data: unknown;
+    let isJson = false;
+    if (text) {
+        try {
+            data = JSON.parse(text);
+            isJson = true;
+        } catch {
+            isJson = false;
+        }
+    }
+
+    if (isJson && typeof data === 'string') {
+        if (isUrlLike(data.trim())) return resolveAgainst(data.trim(), baseUrl);
+        isJson = false;
+    }
+
+    if (isJson && jsonPath.trim()) {
+        const values = evaluateJsonPath(data, jsonPath);
+        const found = values.find(value => typeof value === 'string' && value.trim().length > 0) as string | undefined;
+        if (found === undefined) {
+            throw new Error(`JSON路径 "${jsonPath}" 的结果不是字符串 (实际: ${values.map(describe).join(', ')})`);
+        }
+        return resolveAgainst(found.trim(), baseUrl);
+    }
+
+    if (location) return resolveAgainst(location.trim(), baseUrl);
+
+    if (!isJson && isUrlLike(text)) return resolveAgainst(text, baseUrl);
+
+    if (isJson) {
+        throw new Error('未设置JSON路径, 且响应中没有 Location 头');
+    }
+    const preview = text.length > 80 ? text.substring(0, 80) + '...' : text;
+    throw new Error(`无法从响应中提取图片地址 (HTTP ${response.status}): ${preview || '空响应'}`);
+}
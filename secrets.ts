@@ -0,0 +1,24 @@
+import { App } from 'obsidian';
+
+// 认证密钥保存在本机的 localStorage (按仓库区分) 中, 不写入 data.json, 不会随插件设置同步
+export class SecretStore {
+    constructor(private app: App, private prefix: string) {}
+
+    private key(profileId: string, name: string): string {
+        return `${this.prefix}:secret:${profileId}:${name}`;
+    }
+
+    get(profileId: string, name: string): string {
+        const value = this.app.loadLocalStorage(this.key(profileId, name));
+        return typeof value === 'string' ? value : '';
+    }
+
+    set(profileId: string, name: string, value: string) {
+        this.app.saveLocalStorage(this.key(profileId, name), value || null);
+    }
+
+    // 删除配置时清除它的所有密钥
+    removeAll(profileId: string, names: string[]) {
+        names.forEach(name => this.app.saveLocalStorage(this.key(profileId, name), null));
+    }
+}
@@ -1,5 +1,12 @@
 import { App, PluginSettingTab, Setting, TextAreaComponent } from 'obsidian';
-import ImageUploaderPlugin from './main';
+import ImageUploaderPlugin, { LocalFileAction } from './main';
+import { AuthType, BackendType, ProfileRuleType, UploadProfile, createProfile } from './profiles';
+import { AUTH_SECRETS } from './auth';
+import { OutputFormat, WatermarkPosition } from './imageProcessor';
+import { RequestBodyType } from './requestTemplate';
+import { ExportImageSyntax } from './exportNote';
+import { AttachmentCategory } from './attachments';
+import { UploadRuleMode, UploadRuleType, checkNote, checkUrl } from './uploadRules';
 
 export class ImageUploaderSettingTab extends PluginSettingTab {
     plugin: ImageUploaderPlugin;
@@ -19,56 +26,68 @@ export class ImageUploaderSettingTab extends PluginSettingTab {
             cls: 'image-uploader-title'
         });
 
-        // API Settings Section
-        containerEl.createEl('h3', { text: 'API Configuration' });
+        this.displayProfiles(containerEl);
+        this.displayProfileRules(containerEl);
+
+        // Upload Settings Section
+        containerEl.createEl('h3', { text: 'Upload Settings' });
 
         new Setting(containerEl)
-            .setName('API URL')
-            .setDesc('Set the API endpoint for image upload')
-            .addText(text => text
-                .setPlaceholder('Enter API URL')
-                .setValue(this.plugin.settings.apiUrl)
+            .setName('Auto Upload on Paste')
+            .setDesc('Automatically upload images when pasting')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoUploadOnPaste)
                 .onChange(async (value) => {
-                    this.plugin.settings.apiUrl = value;
+                    this.plugin.settings.autoUploadOnPaste = value;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('Request Method')
-            .setDesc('Set the API request method')
-            .addDropdown(dropdown => dropdown
-                .addOption('POST', 'POST')
-                .addOption('PUT', 'PUT')
-                .setValue(this.plugin.settings.method)
+            .setName('Auto Upload on Drop')
+            .setDesc('Automatically upload images dragged into the editor')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoUploadOnDrop)
                 .onChange(async (value) => {
-                    this.plugin.settings.method = value;
+                    this.plugin.settings.autoUploadOnDrop = value;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('JSON Path')
-            .setDesc('Set the JSON path for the returned URL')
-            .addText(text => text
-                .setPlaceholder('e.g., data.url')
-                .setValue(this.plugin.settings.jsonPath)
+            .setName('Preview Before Upload')
+            .setDesc('Show the images found and their planned actions before "Upload all images in current file" runs')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.previewBeforeUpload)
                 .onChange(async (value) => {
-                    this.plugin.settings.jsonPath = value;
+                    this.plugin.settings.previewBeforeUpload = value;
                     await this.plugin.saveSettings();
                 }));
 
-        // Upload Settings Section
-        containerEl.createEl('h3', { text: 'Upload Settings' });
-
         new Setting(containerEl)
-            .setName('Auto Upload on Paste')
-            .setDesc('Automatically upload images when pasting')
+            .setName('Upload Cache')
+            .setDesc('Reuse the remote URL when an image with identical content was already uploaded with the same profile')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.autoUploadOnPaste)
+                .setValue(this.plugin.settings.enableUploadCache)
                 .onChange(async (value) => {
-                    this.plugin.settings.autoUploadOnPaste = value;
+                    this.plugin.settings.enableUploadCache = value;
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Local Attachments After Upload')
+            .setDesc('What to do with a vault image once it has been uploaded. Images still referenced by another note are always kept')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep')
+                .addOption('trash', 'Move to system trash')
+                .addOption('delete', 'Delete permanently')
+                .setValue(this.plugin.settings.localFileAction)
+                .onChange(async (value) => {
+                    this.plugin.settings.localFileAction = value as LocalFileAction;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.displayProcessing(containerEl);
+        this.displayNetwork(containerEl);
+
         // Image Width Settings
         const widthDesc = containerEl.createDiv();
         widthDesc.createEl('p', {
@@ -131,18 +150,522 @@ export class ImageUploaderSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        this.displayUploadRules(containerEl);
+        this.displayAttachmentRoutes(containerEl);
+        this.displayExport(containerEl);
+    }
+
+    // Attachment routes: profile and size limit per attachment category
+    private displayAttachmentRoutes(containerEl: HTMLElement): void {
+        const { settings } = this.plugin;
+
+        containerEl.createEl('h3', { text: 'Attachment Routes' });
+        containerEl.createEl('p', {
+            text: 'Images are always uploaded. Videos, audio, PDFs and other files are uploaded on paste, drop and in canvas boards only when they have a route. Videos and audio are inserted as <video>/<audio> players, other files as links. Leave the size empty for no limit.',
+            cls: 'width-settings-desc'
+        });
+
+        settings.attachmentRoutes.forEach((route, index) => {
+            new Setting(containerEl)
+                .setClass('profile-rule')
+                .addDropdown(dropdown => dropdown
+                    .addOption('image', 'Images')
+                    .addOption('video', 'Video')
+                    .addOption('audio', 'Audio')
+                    .addOption('pdf', 'PDF')
+                    .addOption('other', 'Other files')
+                    .setValue(route.category)
+                    .onChange(async (value) => {
+                        route.category = value as AttachmentCategory;
+                        await this.plugin.saveSettings();
+                    }))
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', "Note's profile");
+                    settings.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+                    dropdown
+                        .setValue(route.profileId)
+                        .onChange(async (value) => {
+                            route.profileId = value;
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addText(text => text
+                    .setPlaceholder('Max size, e.g. 50MB')
+                    .setValue(route.maxSize)
+                    .onChange(async (value) => {
+                        route.maxSize = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete route')
+                    .onClick(async () => {
+                        settings.attachmentRoutes.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add Route')
+                .onClick(async () => {
+                    settings.attachmentRoutes.push({ category: 'video', profileId: '', maxSize: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    // Publish copies created by the copy/export commands
+    private displayExport(containerEl: HTMLElement): void {
+        const { settings } = this.plugin;
+
+        containerEl.createEl('h3', { text: 'Export' });
+
+        new Setting(containerEl)
+            .setName('Image Syntax')
+            .setDesc('How sized images such as ![[photo.png|300]] are written in copied or exported notes')
+            .addDropdown(dropdown => dropdown
+                .addOption('html', 'HTML <img width> for sized images')
+                .addOption('markdown', 'Standard Markdown (size dropped)')
+                .setValue(settings.exportImageSyntax)
+                .onChange(async (value) => {
+                    settings.exportImageSyntax = value as ExportImageSyntax;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.addTextField(containerEl, 'Export Folder', 'Vault folder for "Export note with uploaded images to file", mirroring the note\'s folders. An earlier export of the same note is overwritten. Batch uploads and link checks skip this folder',
+            settings.exportFolder, value => settings.exportFolder = value || 'Export');
+
+        this.addTextField(containerEl, 'Report Folder', 'Vault folder for batch upload, batch download and link check report notes. Batch uploads and link checks skip this folder',
+            settings.reportFolder, value => settings.reportFolder = value || 'Image Reports');
+    }
+
+    // Upload rules: decide which images are uploaded, with a tester showing the deciding rule
+    private displayUploadRules(containerEl: HTMLElement): void {
+        const { settings } = this.plugin;
+
+        containerEl.createEl('h3', { text: 'Upload Rules' });
+        containerEl.createEl('p', {
+            text: 'Host rules match an exact host, or a host and all its subdomains with "*.example.com". Path rules match "host/path" with a glob (** crosses "/", * does not) or a /regex/. Extension, size ("5MB"), note path (glob), tag and frontmatter ("image-upload=false") rules always exclude.',
+            cls: 'width-settings-desc'
+        });
+
+        new Setting(containerEl)
+            .setName('Rule Mode')
+            .setDesc('Blocklist: host and path rules exclude matching images. Allowlist: only remote images matching a host or path rule are uploaded.')
+            .addDropdown(dropdown => dropdown
+                .addOption('blocklist', 'Blocklist')
+                .addOption('allowlist', 'Allowlist')
+                .setValue(settings.uploadRuleMode)
+                .onChange(async (value) => {
+                    settings.uploadRuleMode = value as UploadRuleMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        settings.uploadRules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .setClass('profile-rule')
+                .addDropdown(dropdown => dropdown
+                    .addOption('host', 'Host')
+                    .addOption('path', 'Path')
+                    .addOption('extension', 'Extension')
+                    .addOption('size', 'Larger than')
+                    .addOption('note', 'Note path')
+                    .addOption('tag', 'Tag')
+                    .addOption('frontmatter', 'Frontmatter')
+                    .setValue(rule.type)
+                    .onChange(async (value) => {
+                        rule.type = value as UploadRuleType;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('*.example.com, cdn.example.com/private/**, gif,svg or 5MB')
+                    .setValue(rule.value)
+                    .onChange(async (value) => {
+                        rule.value = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete rule')
+                    .onClick(async () => {
+                        settings.uploadRules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add Rule')
+                .onClick(async () => {
+                    settings.uploadRules.push({ type: 'host', value: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        // Tester: checks a URL against the current rules and the active note
+        new Setting(containerEl)
+            .setName('Test Rules')
+            .setDesc('Enter an image URL to see whether it would be uploaded and which rule decided it. Note rules are checked against the active note.')
+            .addText(text => text
+                .setPlaceholder('https://cdn.example.com/photo.png')
+                .onChange(value => {
+                    const url = value.trim();
+                    if (!url) {
+                        result.setText('');
+                        return;
+                    }
+                    const note = this.app.workspace.getActiveFile();
+                    const noteCheck = checkNote(this.app, settings.uploadRules, note);
+                    const check = noteCheck.excluded ? noteCheck : checkUrl(settings.uploadRules, settings.uploadRuleMode, url);
+                    result.setText(`${check.excluded ? '⛔ Excluded' : '✅ Uploaded'}: ${check.reason}`);
+                }));
+        const result = containerEl.createEl('p', { cls: 'width-settings-desc' });
+    }
+
+    // Image processing applied before upload
+    private displayProcessing(containerEl: HTMLElement): void {
+        const { settings } = this.plugin;
+
+        containerEl.createEl('h3', { text: 'Image Processing' });
+
+        new Setting(containerEl)
+            .setName('Process Images Before Upload')
+            .setDesc('Resize, re-encode and clean up images before they are uploaded. GIF and SVG files are uploaded unchanged')
+            .addToggle(toggle => toggle
+                .setValue(settings.processImages)
+                .onChange(async (value) => {
+                    settings.processImages = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Maximum Width')
+            .setDesc('Downscale images wider than this many pixels (0 to keep the original size)')
+            .addText(text => text
+                .setPlaceholder('1920')
+                .setValue(settings.maxImageWidth.toString())
+                .then(textEl => {
+                    textEl.inputEl.style.width = '80px';
+                    textEl.inputEl.type = 'number';
+                })
+                .onChange(async (value) => {
+                    settings.maxImageWidth = Math.max(0, parseInt(value) || 0);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Output Format')
+            .setDesc('Re-encode images to this format')
+            .addDropdown(dropdown => dropdown
+                .addOption('original', 'Keep original')
+                .addOption('webp', 'WebP')
+                .addOption('jpeg', 'JPEG')
+                .setValue(settings.outputFormat)
+                .onChange(async (value) => {
+                    settings.outputFormat = value as OutputFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Quality')
+            .setDesc('Encoding quality for WebP and JPEG (1-100)')
+            .addSlider(slider => slider
+                .setLimits(1, 100, 1)
+                .setValue(settings.outputQuality)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    settings.outputQuality = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Strip Metadata')
+            .setDesc('Remove EXIF data such as GPS location and camera details from JPEG, WebP and PNG images by re-encoding them')
+            .addToggle(toggle => toggle
+                .setValue(settings.stripMetadata)
+                .onChange(async (value) => {
+                    settings.stripMetadata = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Watermark')
+            .setDesc('Text drawn on every processed image (leave empty for no watermark)')
+            .addText(text => text
+                .setPlaceholder('© your name')
+                .setValue(settings.watermarkText)
+                .onChange(async (value) => {
+                    settings.watermarkText = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addDropdown(dropdown => dropdown
+                .addOption('bottom-right', 'Bottom right')
+                .addOption('bottom-left', 'Bottom left')
+                .addOption('top-right', 'Top right')
+                .addOption('top-left', 'Top left')
+                .addOption('center', 'Center')
+                .setValue(settings.watermarkPosition)
+                .onChange(async (value) => {
+                    settings.watermarkPosition = value as WatermarkPosition;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    // Timeouts and retries shared by downloads and uploads
+    private displayNetwork(containerEl: HTMLElement): void {
+        const { settings } = this.plugin;
+
+        containerEl.createEl('h3', { text: 'Network' });
+
+        this.addNumberField(containerEl, 'Concurrent Uploads', 'Number of images processed at the same time in batch uploads',
+            settings.maxConcurrent, 3, value => settings.maxConcurrent = Math.max(1, value));
+        this.addNumberField(containerEl, 'Requests Per Second', 'Maximum requests per second to any single host (0 for no limit)',
+            settings.requestsPerSecond, 5, value => settings.requestsPerSecond = value);
+        this.addNumberField(containerEl, 'Request Timeout', 'Seconds to wait for a single download or upload request (0 for no timeout)',
+            settings.requestTimeout, 30, value => settings.requestTimeout = value);
+        this.addNumberField(containerEl, 'Max Retries', 'Retries per request after network errors, timeouts and HTTP 408/429/5xx responses',
+            settings.maxRetries, 3, value => settings.maxRetries = value);
+        this.addNumberField(containerEl, 'Retry Base Delay', 'Milliseconds before the first retry; doubles on each attempt with random jitter. Retry-After is honored on 429 and 503',
+            settings.retryBaseDelay, 1000, value => settings.retryBaseDelay = value);
+        this.addNumberField(containerEl, 'Retry Budget', 'Total retries allowed for one batch, so an unreachable server does not retry every image',
+            settings.retryBudget, 20, value => settings.retryBudget = value);
+        this.addNumberField(containerEl, 'Offline Queue Retry Interval', 'Minutes between automatic retries of images waiting in the offline upload queue',
+            settings.queueRetryInterval, 5, value => settings.queueRetryInterval = value);
+        this.addNumberField(containerEl, 'Slow Link Threshold', 'Seconds after which a remote image is reported as slow by the link checker',
+            settings.slowLinkThreshold, 5, value => settings.slowLinkThreshold = Math.max(1, value));
+    }
+
+    private addNumberField(containerEl: HTMLElement, name: string, desc: string, value: number,
+                           fallback: number, onChange: (value: number) => void): void {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => text
+                .setPlaceholder(fallback.toString())
+                .setValue(value.toString())
+                .then(textEl => {
+                    textEl.inputEl.style.width = '80px';
+                    textEl.inputEl.type = 'number';
+                })
+                .onChange(async (newValue) => {
+                    const parsed = parseInt(newValue);
+                    onChange(isNaN(parsed) ? fallback : Math.max(0, parsed));
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    // Upload profiles: each profile is an independent endpoint configuration
+    private displayProfiles(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: 'Upload Profiles' });
+
+        const { settings } = this.plugin;
+
+        new Setting(containerEl)
+            .setName('Default Profile')
+            .setDesc('Profile used when no profile rule matches the current note')
+            .addDropdown(dropdown => {
+                settings.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+                dropdown
+                    .setValue(settings.defaultProfileId)
+                    .onChange(async (value) => {
+                        settings.defaultProfileId = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        settings.profiles.forEach(profile => this.displayProfile(containerEl, profile));
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add Profile')
+                .setCta()
+                .onClick(async () => {
+                    settings.profiles.push(createProfile(`Profile ${settings.profiles.length + 1}`));
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    private displayProfile(containerEl: HTMLElement, profile: UploadProfile): void {
+        const { settings } = this.plugin;
+        const profileContainer = containerEl.createDiv('profile-container');
+        profileContainer.createEl('h4', { text: profile.name });
+
+        new Setting(profileContainer)
+            .setName('Profile Name')
+            .addText(text => text
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    profile.name = value.trim() || profile.name;
+                    await this.plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete profile')
+                .setDisabled(settings.profiles.length <= 1)
+                .onClick(async () => {
+                    if (settings.profiles.length <= 1) return;
+                    settings.profiles = settings.profiles.filter(p => p.id !== profile.id);
+                    settings.profileRules = settings.profileRules.filter(rule => rule.profileId !== profile.id);
+                    this.plugin.secrets.removeAll(profile.id, Object.values(AUTH_SECRETS));
+                    if (settings.defaultProfileId === profile.id) {
+                        settings.defaultProfileId = settings.profiles[0].id;
+                    }
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(profileContainer)
+            .setName('Backend')
+            .setDesc('Where images uploaded with this profile are stored')
+            .addDropdown(dropdown => dropdown
+                .addOption('api', 'Custom API')
+                .addOption('s3', 'S3 compatible (AWS S3, MinIO, R2)')
+                .addOption('webdav', 'WebDAV (Nextcloud, ownCloud)')
+                .addOption('github', 'GitHub repository')
+                .setValue(profile.backend)
+                .onChange(async (value) => {
+                    profile.backend = value as BackendType;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        switch (profile.backend) {
+            case 's3':
+                this.displayS3Fields(profileContainer, profile);
+                break;
+            case 'webdav':
+                this.displayWebDavFields(profileContainer, profile);
+                break;
+            case 'github':
+                this.displayGitHubFields(profileContainer, profile);
+                break;
+            default:
+                this.displayApiFields(profileContainer, profile);
+        }
+    }
+
+    private displayApiFields(profileContainer: HTMLElement, profile: UploadProfile): void {
+        new Setting(profileContainer)
+            .setName('API URL')
+            .setDesc('Set the API endpoint for image upload. Template variables such as {date:YYYY/MM} and {hash} can be used')
+            .addText(text => text
+                .setPlaceholder('Enter API URL')
+                .setValue(profile.apiUrl)
+                .onChange(async (value) => {
+                    profile.apiUrl = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(profileContainer)
+            .setName('Request Method')
+            .setDesc('Set the API request method')
+            .addDropdown(dropdown => dropdown
+                .addOption('POST', 'POST')
+                .addOption('PUT', 'PUT')
+                .setValue(profile.method)
+                .onChange(async (value) => {
+                    profile.method = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(profileContainer)
+            .setName('Request Body')
+            .setDesc('Multipart form, the raw image bytes, or a JSON object with the image as base64')
+            .addDropdown(dropdown => dropdown
+                .addOption('multipart', 'Multipart form')
+                .addOption('binary', 'Raw binary')
+                .addOption('json', 'JSON (base64)')
+                .setValue(profile.bodyType)
+                .onChange(async (value) => {
+                    profile.bodyType = value as RequestBodyType;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(profileContainer)
+            .setName('Image Field Name')
+            .setDesc('Name of the form field or JSON property that carries the image')
+            .addText(text => text
+                .setPlaceholder('image')
+                .setValue(profile.fieldName)
+                .onChange(async (value) => {
+                    profile.fieldName = value.trim() || 'image';
+                    await this.plugin.saveSettings();
+                }));
+
+        this.addTextField(profileContainer, 'Upload File Name', 'Optional file name sent with the image, e.g. {hash}.{ext} or {noteName}-{originalName}.{ext}. Leave empty to keep the original name',
+            profile.fileNameTemplate, value => profile.fileNameTemplate = value);
+
+        // Extra form fields / JSON properties, template variables allowed in values
+        const fieldsContainer = profileContainer.createDiv('headers-container');
+        new Setting(fieldsContainer)
+            .setName('Extra Fields')
+            .setDesc('Additional form fields or JSON properties (one per line, format: name: value). Values can use {noteName}, {originalName}, {ext}, {hash}, {hash:8}, {date} and {date:YYYY/MM}');
+
+        const fieldsTextArea = new Setting(fieldsContainer)
+            .addTextArea(text => text
+                .setPlaceholder('path: notes/{date:YYYY/MM}/{hash}.{ext}\nalbum: {noteName}')
+                .setValue(profile.extraFields.join('\n'))
+                .onChange(async (value) => {
+                    profile.extraFields = value
+                        .split('\n')
+                        .map(line => line.trim())
+                        .filter(line => line.includes(':'));
+                    await this.plugin.saveSettings();
+                }));
+
+        const fieldsComponent = fieldsTextArea.components[0] as TextAreaComponent;
+        fieldsComponent.inputEl.style.width = '100%';
+        fieldsComponent.inputEl.style.height = '80px';
+        fieldsTextArea.settingEl.style.border = 'none';
+        fieldsTextArea.settingEl.style.padding = '0';
+
+        new Setting(profileContainer)
+            .setName('JSON Path')
+            .setDesc('Path to the image URL in the JSON response, e.g. data.url, files[0].link or files[*].link. Leave empty to read the Location header or a plain-text body')
+            .addText(text => text
+                .setPlaceholder('e.g., data.url')
+                .setValue(profile.jsonPath)
+                .onChange(async (value) => {
+                    profile.jsonPath = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.addTextField(profileContainer, 'Delete Token JSON Path', 'Optional path to a delete URL or token in the upload response, e.g. data.delete_url or data.hash',
+            profile.deleteJsonPath, value => profile.deleteJsonPath = value);
+        this.addTextField(profileContainer, 'Delete URL', 'Optional delete request template. {token} is the captured value and {url} the image URL, e.g. https://example.com/api/delete/{token}. Use {token} alone when the captured value is the full delete URL; headers and authentication are only sent to the API URL\'s origin. Leave empty to disable deleting',
+            profile.deleteUrl, value => profile.deleteUrl = value);
+
+        new Setting(profileContainer)
+            .setName('Delete Method')
+            .setDesc('HTTP method of the delete request')
+            .addDropdown(dropdown => dropdown
+                .addOption('DELETE', 'DELETE')
+                .addOption('GET', 'GET')
+                .addOption('POST', 'POST')
+                .setValue(profile.deleteMethod)
+                .onChange(async (value) => {
+                    profile.deleteMethod = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.displayAuthFields(profileContainer, profile);
+
         // Custom Headers Section with textarea below
-        const headersContainer = containerEl.createDiv('headers-container');
+        const headersContainer = profileContainer.createDiv('headers-container');
         new Setting(headersContainer)
             .setName('Custom Headers')
-            .setDesc('Add custom HTTP headers for API requests (one per line, format: Key: Value)');
+            .setDesc('Add custom HTTP headers for API requests (one per line, format: Key: Value). Values can use the same template variables. Use Authentication for tokens, headers are stored in plain text');
 
         const headersTextArea = new Setting(headersContainer)
             .addTextArea(text => text
-                .setPlaceholder('Authorization: Bearer token\nX-Custom-Header: value')
-                .setValue(this.plugin.settings.customHeaders?.join('\n') || '')
+                .setPlaceholder('X-Custom-Header: value\nX-Album: {noteName}')
+                .setValue(profile.customHeaders?.join('\n') || '')
                 .onChange(async (value) => {
-                    this.plugin.settings.customHeaders = value
+                    profile.customHeaders = value
                         .split('\n')
                         .map(line => line.trim())
                         .filter(line => line.includes(':'));
@@ -155,39 +678,204 @@ export class ImageUploaderSettingTab extends PluginSettingTab {
         headersComponent.inputEl.style.height = '80px';
         headersTextArea.settingEl.style.border = 'none';
         headersTextArea.settingEl.style.padding = '0';
+    }
+
+    // Authentication: secrets are kept in this device's local storage, not in data.json
+    private displayAuthFields(profileContainer: HTMLElement, profile: UploadProfile): void {
+        const { auth } = profile;
+
+        new Setting(profileContainer)
+            .setName('Authentication')
+            .setDesc('Tokens, passwords and keys are stored on this device only and are not synced with the plugin settings')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'None')
+                .addOption('bearer', 'Bearer token')
+                .addOption('oauth2', 'OAuth2 client credentials')
+                .addOption('basic', 'Basic auth')
+                .addOption('hmac', 'HMAC signature')
+                .setValue(auth.type)
+                .onChange(async (value) => {
+                    auth.type = value as AuthType;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
 
-        // Blacklist Section
-        containerEl.createEl('h3', { text: 'Domain Blacklist' });
+        switch (auth.type) {
+            case 'bearer':
+                this.addSecretField(profileContainer, 'Bearer Token', 'Sent as "Authorization: Bearer <token>"', profile, AUTH_SECRETS.token);
+                break;
+            case 'basic':
+                this.addTextField(profileContainer, 'Username', '',
+                    auth.username, value => auth.username = value);
+                this.addSecretField(profileContainer, 'Password', '', profile, AUTH_SECRETS.password);
+                break;
+            case 'oauth2':
+                this.addTextField(profileContainer, 'Token URL', 'OAuth2 token endpoint. The access token is refreshed when it expires or a request returns 401',
+                    auth.tokenUrl, value => auth.tokenUrl = value);
+                this.addTextField(profileContainer, 'Client ID', '',
+                    auth.clientId, value => auth.clientId = value);
+                this.addSecretField(profileContainer, 'Client Secret', '', profile, AUTH_SECRETS.clientSecret);
+                this.addTextField(profileContainer, 'Scope', 'Optional, space separated',
+                    auth.scope, value => auth.scope = value);
+                break;
+            case 'hmac':
+                this.addSecretField(profileContainer, 'Signing Secret', 'HMAC-SHA256 over "METHOD\\npath?query\\ntimestamp\\nSHA-256 of body" (hex), timestamp in Unix seconds',
+                    profile, AUTH_SECRETS.hmacSecret);
+                this.addTextField(profileContainer, 'Key ID', 'Optional key identifier sent with each request',
+                    auth.keyId, value => auth.keyId = value);
+                this.addTextField(profileContainer, 'Key ID Header', '',
+                    auth.keyIdHeader, value => auth.keyIdHeader = value || 'X-Key-Id');
+                this.addTextField(profileContainer, 'Signature Header', '',
+                    auth.signatureHeader, value => auth.signatureHeader = value || 'X-Signature');
+                this.addTextField(profileContainer, 'Timestamp Header', '',
+                    auth.timestampHeader, value => auth.timestampHeader = value || 'X-Timestamp');
+                break;
+        }
+    }
 
-        // Domain Blacklist setting
-        const blacklistContainer = containerEl.createDiv('blacklist-container');
+    private addSecretField(containerEl: HTMLElement, name: string, desc: string, profile: UploadProfile, secret: string): void {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => {
+                text
+                    .setValue(this.plugin.secrets.get(profile.id, secret))
+                    .onChange(value => this.plugin.secrets.set(profile.id, secret, value.trim()));
+                text.inputEl.type = 'password';
+            });
+    }
 
-        new Setting(blacklistContainer)
-            .setName('Domain Blacklist')
-            .setDesc('Specify domains that should not be uploaded (one per line).');
+    private displayS3Fields(profileContainer: HTMLElement, profile: UploadProfile): void {
+        const config = profile.s3;
+        this.addTextField(profileContainer, 'Endpoint', 'S3 endpoint, e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000',
+            config.endpoint, value => config.endpoint = value);
+        this.addTextField(profileContainer, 'Region', 'Signing region, use us-east-1 for MinIO',
+            config.region, value => config.region = value);
+        this.addTextField(profileContainer, 'Bucket', 'Bucket name',
+            config.bucket, value => config.bucket = value);
+        this.addTextField(profileContainer, 'Access Key ID', '',
+            config.accessKeyId, value => config.accessKeyId = value);
+        this.addSecretField(profileContainer, 'Secret Access Key', 'Stored on this device only', profile, AUTH_SECRETS.s3SecretAccessKey);
 
-        // Add textarea in a new div below the setting
-        const textAreaContainer = blacklistContainer.createDiv('blacklist-textarea-container');
-        const textArea = new Setting(textAreaContainer)
-            .addTextArea(text => text
-                .setPlaceholder('Examples:\nexample.com\nlocalhost:3000\nhttp://test.com')
-                .setValue(this.plugin.settings.blacklistDomains.join('\n'))
+        new Setting(profileContainer)
+            .setName('Path-Style URLs')
+            .setDesc('Use endpoint/bucket/key instead of bucket.endpoint/key (required by most self-hosted servers)')
+            .addToggle(toggle => toggle
+                .setValue(config.pathStyle)
                 .onChange(async (value) => {
-                    this.plugin.settings.blacklistDomains = value
-                        .split('\n')
-                        .map(s => s.trim())
-                        .filter(s => s.length > 0);
+                    config.pathStyle = value;
                     await this.plugin.saveSettings();
                 }));
 
-        // Style the textarea
-        const textAreaComponent = textArea.components[0] as TextAreaComponent;
-        textAreaComponent.inputEl.style.width = '100%';
-        textAreaComponent.inputEl.style.height = '120px';
-        textAreaComponent.inputEl.style.minHeight = '120px';
+        this.addTextField(profileContainer, 'Path Prefix', 'Folder inside the bucket, e.g. images/obsidian',
+            config.pathPrefix, value => config.pathPrefix = value);
+        this.addTextField(profileContainer, 'Public URL', 'Base URL used in links, e.g. a CDN domain. Leave empty to link to the object URL',
+            config.publicUrl, value => config.publicUrl = value);
+    }
+
+    private displayWebDavFields(profileContainer: HTMLElement, profile: UploadProfile): void {
+        const config = profile.webdav;
+        this.addTextField(profileContainer, 'Server URL', 'WebDAV folder URL, e.g. https://cloud.example.com/remote.php/dav/files/me',
+            config.serverUrl, value => config.serverUrl = value);
+        this.addTextField(profileContainer, 'Username', '',
+            config.username, value => config.username = value);
+        this.addSecretField(profileContainer, 'Password', 'Password or app password, stored on this device only', profile, AUTH_SECRETS.webdavPassword);
+        this.addTextField(profileContainer, 'Path Prefix', 'Folder below the server URL, created if missing',
+            config.pathPrefix, value => config.pathPrefix = value);
+        this.addTextField(profileContainer, 'Public URL', 'Base URL used in links, e.g. a public share. Leave empty to link to the WebDAV URL',
+            config.publicUrl, value => config.publicUrl = value);
+    }
+
+    private displayGitHubFields(profileContainer: HTMLElement, profile: UploadProfile): void {
+        const config = profile.github;
+        this.addTextField(profileContainer, 'API Base', 'https://api.github.com, or your GitHub Enterprise API URL',
+            config.apiBase, value => config.apiBase = value);
+        this.addTextField(profileContainer, 'Owner', 'User or organization that owns the repository',
+            config.owner, value => config.owner = value);
+        this.addTextField(profileContainer, 'Repository', '',
+            config.repo, value => config.repo = value);
+        this.addTextField(profileContainer, 'Branch', '',
+            config.branch, value => config.branch = value);
+        this.addSecretField(profileContainer, 'Token', 'Personal access token with contents write permission, stored on this device only',
+            profile, AUTH_SECRETS.githubToken);
+        this.addTextField(profileContainer, 'Path Prefix', 'Folder inside the repository, e.g. assets/images',
+            config.pathPrefix, value => config.pathPrefix = value);
+        this.addTextField(profileContainer, 'Public URL', 'Base URL used in links, e.g. a jsDelivr URL. Leave empty to use the raw download URL',
+            config.publicUrl, value => config.publicUrl = value);
+    }
 
-        // Remove default setting styles
-        textArea.settingEl.style.border = 'none';
-        textArea.settingEl.style.padding = '0';
+    private addTextField(containerEl: HTMLElement, name: string, desc: string, value: string,
+                         onChange: (value: string) => void): void {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => text
+                .setValue(value)
+                .onChange(async (newValue) => {
+                    onChange(newValue.trim());
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    // Profile rules: the first matching rule selects the profile for a note
+    private displayProfileRules(containerEl: HTMLElement): void {
+        const { settings } = this.plugin;
+
+        containerEl.createEl('h3', { text: 'Profile Rules' });
+        containerEl.createEl('p', {
+            text: 'Rules are checked from top to bottom. Folder rules match a vault folder and its subfolders, tag rules match a tag and its nested tags, frontmatter rules match "key" or "key=value".',
+            cls: 'width-settings-desc'
+        });
+
+        settings.profileRules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .setClass('profile-rule')
+                .addDropdown(dropdown => dropdown
+                    .addOption('folder', 'Folder')
+                    .addOption('tag', 'Tag')
+                    .addOption('frontmatter', 'Frontmatter')
+                    .setValue(rule.type)
+                    .onChange(async (value) => {
+                        rule.type = value as ProfileRuleType;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('work/notes, #blog or publish=true')
+                    .setValue(rule.value)
+                    .onChange(async (value) => {
+                        rule.value = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addDropdown(dropdown => {
+                    settings.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+                    dropdown
+                        .setValue(rule.profileId)
+                        .onChange(async (value) => {
+                            rule.profileId = value;
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete rule')
+                    .onClick(async () => {
+                        settings.profileRules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add Rule')
+                .onClick(async () => {
+                    settings.profileRules.push({
+                        type: 'folder',
+                        value: '',
+                        profileId: settings.defaultProfileId
+                    });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,173 @@
+import { strict as assert } from 'assert';
+import type { App } from 'obsidian';
+import { AUTH_SECRETS, AuthManager } from '../auth';
+import { UploadProfile, createProfile } from '../profiles';
+import { HttpClient } from '../request';
+import { TemplateContext } from '../requestTemplate';
+import { SecretStore } from '../secrets';
+import { createUploader } from '../uploaders';
+
+// 对本地替身服务器 (tests/mock-server.mjs) 检查 S3、WebDAV 和 GitHub 后端的上传、访问和删除
+
+interface MockServer {
+    url: string;
+    state: { log: string[], githubProxyError: boolean };
+}
+
+interface Credentials {
+    s3: { accessKeyId: string, secretAccessKey: string, region: string, bucket: string };
+    webdav: { username: string, password: string };
+    github: { owner: string, repo: string, branch: string, token: string };
+}
+
+// SecretStore 只用到 App 的 localStorage 读写
+function createSecrets(): SecretStore {
+    const storage = new Map<string, unknown>();
+    const app = {
+        loadLocalStorage: (key: string) => storage.get(key) ?? null,
+        saveLocalStorage: (key: string, value: unknown) => value === null ? storage.delete(key) : storage.set(key, value)
+    };
+    return new SecretStore(app as unknown as App, 'test');
+}
+
+const CONTEXT: TemplateContext = { noteName: 'note', originalName: 'photo', ext: 'png', hash: '', date: new Date() };
+
+function createHttp(): HttpClient {
+    return new HttpClient({ timeoutMs: 5000, maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 });
+}
+
+function createImage(name: string): File {
+    const bytes = new Uint8Array(256).map((_, i) => (i * 37) % 256);
+    return new File([bytes], name, { type: 'image/png' });
+}
+
+async function fetchBytes(url: string, headers: Record<string, string> = {}): Promise<{ status: number, bytes: Uint8Array }> {
+    const response = await fetch(url, { headers });
+    return { status: response.status, bytes: new Uint8Array(await response.arrayBuffer()) };
+}
+
+async function expectUploaded(url: string, file: File, headers: Record<string, string> = {}) {
+    const { status, bytes } = await fetchBytes(url, headers);
+    assert.equal(status, 200, `上传后无法访问: ${url}`);
+    assert.deepEqual(bytes, new Uint8Array(await file.arrayBuffer()), `上传的内容不一致: ${url}`);
+}
+
+async function checkS3(server: MockServer, credentials: Credentials, secrets: SecretStore, auth: AuthManager) {
+    const profile: UploadProfile = createProfile('S3', { backend: 's3' });
+    Object.assign(profile.s3, {
+        endpoint: server.url,
+        region: credentials.s3.region,
+        bucket: credentials.s3.bucket,
+        accessKeyId: credentials.s3.accessKeyId,
+        pathStyle: true,
+        pathPrefix: 'notes/images',
+        publicUrl: `${server.url}/public`
+    });
+
+    // 本机没有保存密钥时给出明确的错误
+    await assert.rejects(createUploader(profile, createHttp(), auth).upload(createImage('a.png'), CONTEXT), /没有在本设备上设置/);
+
+    // 密钥错误时服务器拒绝签名
+    secrets.set(profile.id, AUTH_SECRETS.s3SecretAccessKey, 'wrong-secret');
+    await assert.rejects(createUploader(profile, createHttp(), auth).upload(createImage('a.png'), CONTEXT), /SignatureDoesNotMatch/);
+
+    // 文件名中的空格和括号需要与签名使用相同的编码
+    secrets.set(profile.id, AUTH_SECRETS.s3SecretAccessKey, credentials.s3.secretAccessKey);
+    const uploader = createUploader(profile, createHttp(), auth);
+    const file = createImage('my photo (1).png');
+    const result = await uploader.upload(file, CONTEXT);
+    assert.match(result.url, new RegExp(`^${server.url}/public/notes/images/\\d+-my-photo-%281%29\\.png$`));
+    assert.ok(uploader.isOwnUrl(result.url));
+    await expectUploaded(result.url, file);
+
+    assert.ok(uploader.supportsDelete(result.deleteKey));
+    await uploader.delete(result.url, result.deleteKey);
+    assert.equal((await fetchBytes(result.url)).status, 404, 'S3 对象没有被删除');
+    console.log('✅ S3: SigV4 签名、上传、公开地址和删除');
+}
+
+async function checkWebDav(server: MockServer, credentials: Credentials, secrets: SecretStore, auth: AuthManager) {
+    const profile: UploadProfile = createProfile('WebDAV', { backend: 'webdav' });
+    Object.assign(profile.webdav, {
+        serverUrl: `${server.url}/dav`,
+        username: credentials.webdav.username,
+        pathPrefix: 'notes/2026/images',
+        publicUrl: ''
+    });
+
+    secrets.set(profile.id, AUTH_SECRETS.webdavPassword, 'wrong-password');
+    await assert.rejects(createUploader(profile, createHttp(), auth).upload(createImage('a.png'), CONTEXT), /HTTP 401/);
+
+    secrets.set(profile.id, AUTH_SECRETS.webdavPassword, credentials.webdav.password);
+    const uploader = createUploader(profile, createHttp(), auth);
+    // 没有设置公开地址时链接指向 WebDAV 地址, 读取同样需要认证
+    const headers = { Authorization: `Basic ${Buffer.from(`${credentials.webdav.username}:${credentials.webdav.password}`).toString('base64')}` };
+
+    // 父目录逐级创建, 替身服务器在父目录不存在时返回 409
+    server.state.log.length = 0;
+    const file = createImage('photo.png');
+    const result = await uploader.upload(file, CONTEXT);
+    assert.deepEqual(server.state.log.filter(line => line.startsWith('MKCOL')), [
+        'MKCOL /dav/notes/',
+        'MKCOL /dav/notes/2026/',
+        'MKCOL /dav/notes/2026/images/'
+    ]);
+    assert.match(result.url, new RegExp(`^${server.url}/dav/notes/2026/images/\\d+-photo\\.png$`));
+    await expectUploaded(result.url, file, headers);
+
+    // 目录已存在时 MKCOL 返回 405, 不影响上传
+    const second = await uploader.upload(createImage('second.png'), CONTEXT);
+    await expectUploaded(second.url, createImage('second.png'), headers);
+
+    await uploader.delete(result.url, result.deleteKey);
+    assert.equal((await fetchBytes(result.url, headers)).status, 404, 'WebDAV 文件没有被删除');
+    // 文件已不存在时视为删除成功
+    await uploader.delete(result.url, result.deleteKey);
+    console.log('✅ WebDAV: Basic 认证、MKCOL 创建目录、上传和删除');
+}
+
+async function checkGitHub(server: MockServer, credentials: Credentials, secrets: SecretStore, auth: AuthManager) {
+    const profile: UploadProfile = createProfile('GitHub', { backend: 'github' });
+    Object.assign(profile.github, {
+        apiBase: `${server.url}/api`,
+        owner: credentials.github.owner,
+        repo: credentials.github.repo,
+        branch: credentials.github.branch,
+        pathPrefix: 'assets',
+        publicUrl: ''
+    });
+
+    secrets.set(profile.id, AUTH_SECRETS.githubToken, 'wrong-token');
+    await assert.rejects(createUploader(profile, createHttp(), auth).upload(createImage('a.png'), CONTEXT), /Bad credentials/);
+
+    secrets.set(profile.id, AUTH_SECRETS.githubToken, credentials.github.token);
+    const uploader = createUploader(profile, createHttp(), auth);
+
+    // 代理返回的错误页不是 JSON 时报告状态码
+    server.state.githubProxyError = true;
+    await assert.rejects(uploader.upload(createImage('a.png'), CONTEXT), /GitHub上传失败: HTTP 502$/);
+    await assert.rejects(uploader.delete('', 'sha:assets/a.png'), /GitHub删除失败: HTTP 502$/);
+    server.state.githubProxyError = false;
+
+    const file = createImage('photo.png');
+    const result = await uploader.upload(file, CONTEXT);
+    assert.match(result.url, new RegExp(`^${server.url}/raw/alice/images/main/assets/\\d+-photo\\.png$`));
+    assert.match(result.deleteKey ?? '', /^[0-9a-f]{40}:assets\/\d+-photo\.png$/);
+    await expectUploaded(result.url, file);
+
+    // 没有保存 sha 的图片不能删除
+    assert.equal(uploader.supportsDelete(undefined), false);
+    await uploader.delete(result.url, result.deleteKey);
+    assert.equal((await fetchBytes(result.url)).status, 404, 'GitHub 文件没有被删除');
+    // 文件已不存在 (404) 时视为删除成功
+    await uploader.delete(result.url, result.deleteKey);
+    console.log('✅ GitHub: contents API 上传、download_url 和按 sha 删除');
+}
+
+export async function run(server: MockServer, credentials: Credentials) {
+    const secrets = createSecrets();
+    const auth = new AuthManager(secrets);
+    await checkS3(server, credentials, secrets, auth);
+    await checkWebDav(server, credentials, secrets, auth);
+    await checkGitHub(server, credentials, secrets, auth);
+}
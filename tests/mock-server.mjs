@@ -0,0 +1,221 @@
+// 内置后端的本地替身服务器: S3 (校验 SigV4 签名)、WebDAV (Basic 认证、MKCOL) 和 GitHub contents API
+// 单独运行时监听 9000 端口, 可以在 Obsidian 中把上传配置指向它手动测试:
+//   node tests/mock-server.mjs [port]
+import http from 'http';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+
+export const CREDENTIALS = {
+    s3: { accessKeyId: 'test-access-key', secretAccessKey: 'test-secret-key', region: 'us-east-1', bucket: 'images' },
+    webdav: { username: 'alice', password: 'webdav-password' },
+    github: { owner: 'alice', repo: 'images', branch: 'main', token: 'github-token' }
+};
+
+const sha256Hex = data => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        const chunks = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+}
+
+function send(res, status, body = '', headers = {}) {
+    res.writeHead(status, headers);
+    res.end(body);
+}
+
+function sendJson(res, status, data) {
+    send(res, status, JSON.stringify(data), { 'Content-Type': 'application/json' });
+}
+
+function s3Error(res, status, code) {
+    send(res, status, `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code></Error>`,
+        { 'Content-Type': 'application/xml' });
+}
+
+// 按 AWS Signature Version 4 重新计算签名, 与请求中的签名比较
+function verifySigV4(req, rawPath, query, body) {
+    const auth = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]+)$/
+        .exec(req.headers['authorization'] || '');
+    if (!auth) return 'AuthorizationHeaderMalformed';
+    const [, accessKeyId, dateStamp, region, signedHeaders, signature] = auth;
+    const { s3 } = CREDENTIALS;
+    if (accessKeyId !== s3.accessKeyId) return 'InvalidAccessKeyId';
+
+    const payloadHash = req.headers['x-amz-content-sha256'];
+    if (payloadHash !== sha256Hex(body)) return 'XAmzContentSHA256Mismatch';
+
+    const canonicalQuery = Array.from(new URLSearchParams(query).entries())
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+        .sort()
+        .join('&');
+    const canonicalHeaders = signedHeaders.split(';')
+        .map(name => `${name}:${String(req.headers[name] ?? '').trim().replace(/\s+/g, ' ')}\n`)
+        .join('');
+    const canonicalRequest = [req.method, rawPath, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const amzDate = req.headers['x-amz-date'] || '';
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${s3.secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+    const expected = hmac(signingKey, stringToSign).toString('hex');
+    return expected === signature ? null : 'SignatureDoesNotMatch';
+}
+
+// path-style 地址: /<bucket>/<key>; S3 客户端只使用 endpoint 的 origin, 所以存储桶位于根路径
+async function handleS3(req, res, rawPath, query, state) {
+    const body = await readBody(req);
+    const error = verifySigV4(req, rawPath, query, body);
+    if (error) return s3Error(res, 403, error);
+
+    const [, bucket, ...rest] = rawPath.split('/');
+    if (decodeURIComponent(bucket) !== CREDENTIALS.s3.bucket) return s3Error(res, 404, 'NoSuchBucket');
+    const key = rest.map(decodeURIComponent).join('/');
+    if (!key) return s3Error(res, 400, 'InvalidRequest');
+
+    if (req.method === 'PUT') {
+        state.s3.set(key, { body, type: req.headers['content-type'] || 'application/octet-stream' });
+        return send(res, 200, '', { ETag: `"${crypto.createHash('md5').update(body).digest('hex')}"` });
+    }
+    if (req.method === 'DELETE') {
+        state.s3.delete(key);
+        return send(res, 204);
+    }
+    return s3Error(res, 405, 'MethodNotAllowed');
+}
+
+// WebDAV: 文件和目录都以解码后的路径保存, 根目录始终存在
+async function handleWebDav(req, res, rawPath, state) {
+    const { username, password } = CREDENTIALS.webdav;
+    const expected = 'Basic ' + Buffer.from(`${username}:${password}`).toString('base64');
+    if (req.headers['authorization'] !== expected) {
+        await readBody(req);
+        return send(res, 401, '', { 'WWW-Authenticate': 'Basic realm="webdav"' });
+    }
+
+    const path = rawPath.substring('/dav'.length).split('/').map(decodeURIComponent).join('/').replace(/\/+$/, '') || '/';
+    const parent = path.substring(0, path.lastIndexOf('/')) || '/';
+    const body = await readBody(req);
+
+    switch (req.method) {
+        case 'MKCOL':
+            if (state.dirs.has(path) || state.files.has(path)) return send(res, 405);
+            if (!state.dirs.has(parent)) return send(res, 409);
+            state.dirs.add(path);
+            return send(res, 201);
+        case 'PUT':
+            if (!state.dirs.has(parent)) return send(res, 409);
+            state.files.set(path, { body, type: req.headers['content-type'] || 'application/octet-stream' });
+            return send(res, 201);
+        case 'DELETE':
+            return send(res, state.files.delete(path) ? 204 : 404);
+        case 'GET': {
+            const file = state.files.get(path);
+            return file ? send(res, 200, file.body, { 'Content-Type': file.type }) : send(res, 404);
+        }
+        default:
+            return send(res, 405);
+    }
+}
+
+// GitHub contents API: /api/repos/<owner>/<repo>/contents/<path>
+async function handleGitHub(req, res, rawPath, origin, state) {
+    const { owner, repo, token } = CREDENTIALS.github;
+    const body = await readBody(req);
+    // 模拟代理返回的 HTML 错误页
+    if (state.githubProxyError) return send(res, 502, '<html><body>Bad Gateway</body></html>', { 'Content-Type': 'text/html' });
+    if (req.headers['authorization'] !== `Bearer ${token}`) return sendJson(res, 401, { message: 'Bad credentials' });
+
+    const prefix = `/api/repos/${owner}/${repo}/contents/`;
+    if (!rawPath.startsWith(prefix)) return sendJson(res, 404, { message: 'Not Found' });
+    const path = rawPath.substring(prefix.length).split('/').map(decodeURIComponent).join('/');
+
+    let data;
+    try {
+        data = JSON.parse(body.toString() || '{}');
+    } catch {
+        return sendJson(res, 400, { message: 'Problems parsing JSON' });
+    }
+    const existing = state.github.get(path);
+
+    if (req.method === 'PUT') {
+        if (!data.message || typeof data.content !== 'string') return sendJson(res, 422, { message: 'Invalid request' });
+        if (existing && data.sha !== existing.sha) return sendJson(res, 422, { message: '"sha" wasn\'t supplied.' });
+        const content = Buffer.from(data.content, 'base64');
+        const sha = crypto.createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+        state.github.set(path, { sha, body: content, branch: data.branch });
+        return sendJson(res, existing ? 200 : 201, {
+            content: {
+                path,
+                sha,
+                download_url: `${origin}/raw/${owner}/${repo}/${data.branch}/${path.split('/').map(encodeURIComponent).join('/')}`
+            }
+        });
+    }
+    if (req.method === 'DELETE') {
+        if (!existing) return sendJson(res, 404, { message: 'Not Found' });
+        if (data.sha !== existing.sha) return sendJson(res, 409, { message: `${path} does not match ${data.sha}` });
+        state.github.delete(path);
+        return sendJson(res, 200, { content: null });
+    }
+    return sendJson(res, 405, { message: 'Method Not Allowed' });
+}
+
+// 上传后的公开地址: /public/<key> 对应 S3 对象, /raw/... 对应 GitHub 文件
+function handlePublic(res, rawPath, state) {
+    const parts = rawPath.split('/').map(decodeURIComponent);
+    let file;
+    if (parts[1] === 'public') file = state.s3.get(parts.slice(2).join('/'));
+    if (parts[1] === 'raw') file = state.github.get(parts.slice(5).join('/'));
+    return file ? send(res, 200, file.body, { 'Content-Type': file.type || 'application/octet-stream' }) : send(res, 404);
+}
+
+// 启动替身服务器, port 为 0 时使用随机端口
+export function startMockServer(port = 0) {
+    const state = {
+        s3: new Map(),
+        dirs: new Set(['/']),
+        files: new Map(),
+        github: new Map(),
+        // 为 true 时 GitHub API 返回 HTML 的 502 错误页
+        githubProxyError: false,
+        // 每个请求的方法和路径, 供检查脚本断言请求顺序
+        log: []
+    };
+
+    const server = http.createServer((req, res) => {
+        const [rawPath, query = ''] = (req.url || '/').split('?');
+        const origin = `http://${req.headers.host}`;
+        state.log.push(`${req.method} ${rawPath}`);
+
+        let handled;
+        if (rawPath.startsWith(`/${CREDENTIALS.s3.bucket}/`)) handled = handleS3(req, res, rawPath, query, state);
+        else if (rawPath === '/dav' || rawPath.startsWith('/dav/')) handled = handleWebDav(req, res, rawPath, state);
+        else if (rawPath.startsWith('/api/')) handled = handleGitHub(req, res, rawPath, origin, state);
+        else handled = Promise.resolve(handlePublic(res, rawPath, state));
+
+        handled.catch(error => {
+            console.error(error);
+            if (!res.headersSent) send(res, 500, String(error));
+        });
+    });
+
+    return new Promise(resolve => {
+        server.listen(port, '127.0.0.1', () => {
+            const url = `http://127.0.0.1:${server.address().port}`;
+            resolve({ url, state, close: () => new Promise(done => server.close(done)) });
+        });
+    });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    const { url } = await startMockServer(Number(process.argv[2]) || 9000);
+    console.log(`Mock backends listening on ${url}`);
+    console.log(`  S3:     endpoint ${url}, bucket ${CREDENTIALS.s3.bucket}, path-style, public URL ${url}/public`);
+    console.log(`  WebDAV: server URL ${url}/dav`);
+    console.log(`  GitHub: API base ${url}/api, owner ${CREDENTIALS.github.owner}, repository ${CREDENTIALS.github.repo}`);
+}
@@ -0,0 +1,45 @@
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+
+// 在 Node 中运行检查脚本时代替 obsidian 模块, 只实现上传后端用到的部分;
+// requestUrl 用 fetch 实现, 与 Obsidian 一样不受 CORS 限制并自动跟随重定向, throw: false 时返回错误状态码;
+// 与 Obsidian 一样, 读取 json 时才解析响应, 不是 JSON 时抛出错误
+
+export const moment = require('moment');
+
+export class Notice {
+    constructor(message: string) {
+        console.log(`[Notice] ${message}`);
+    }
+}
+
+export function getAllTags(): string[] {
+    return [];
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export async function requestUrl(params: RequestUrlParam): Promise<RequestUrlResponse> {
+    const headers: Record<string, string> = { ...params.headers };
+    if (params.contentType) headers['Content-Type'] = params.contentType;
+
+    const response = await fetch(params.url, { method: params.method || 'GET', headers, body: params.body });
+    const arrayBuffer = await response.arrayBuffer();
+    const text = new TextDecoder().decode(arrayBuffer);
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => responseHeaders[key] = value);
+
+    if (params.throw !== false && response.status >= 400) {
+        throw new Error(`Request failed, status ${response.status}`);
+    }
+    return {
+        status: response.status,
+        headers: responseHeaders,
+        arrayBuffer,
+        text,
+        get json() {
+            return JSON.parse(text);
+        }
+    };
+}
@@ -0,0 +1,36 @@
+// 启动替身服务器, 打包并运行检查脚本: npm test
+import esbuild from 'esbuild';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { CREDENTIALS, startMockServer } from './mock-server.mjs';
+
+const dir = path.dirname(fileURLToPath(import.meta.url));
+const outfile = path.join(os.tmpdir(), `obsidian-image-uploader-tests-${process.pid}.mjs`);
+
+await esbuild.build({
+    entryPoints: [path.join(dir, 'backends.test.ts')],
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    target: 'node18',
+    outfile,
+    alias: { obsidian: path.join(dir, 'obsidian-shim.ts') },
+    // moment 由 obsidian-shim 以 require 引入
+    banner: { js: "import { createRequire } from 'module'; const require = createRequire(import.meta.url);" },
+    logLevel: 'warning'
+});
+
+const server = await startMockServer(0);
+try {
+    const { run } = await import(pathToFileURL(outfile).href);
+    await run(server, CREDENTIALS);
+    console.log('All backend checks passed');
+} catch (error) {
+    console.error('❌', error);
+    process.exitCode = 1;
+} finally {
+    await server.close();
+    fs.rmSync(outfile, { force: true });
+}
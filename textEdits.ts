@@ -0,0 +1,74 @@
+import { Editor } from 'obsidian';
+
+// 基于位置的文本替换: 一次性应用所有修改, 避免对整个文档反复 replace
+
+export interface TextEdit {
+    from: number;
+    to: number;
+    // 替换前的原文, 用于校验和重新定位
+    original: string;
+    text: string;
+}
+
+// 按位置从前往后拼接新文本, 重叠的修改只保留第一个
+export function applyEdits(content: string, edits: TextEdit[]): string {
+    const sorted = edits.slice().sort((a, b) => a.from - b.from);
+    let result = '';
+    let cursor = 0;
+    for (const edit of sorted) {
+        if (edit.from < cursor) continue;
+        result += content.substring(cursor, edit.from) + edit.text;
+        cursor = edit.to;
+    }
+    return result + content.substring(cursor);
+}
+
+// 内容在修改期间发生变化时重新定位: 原位置的文本不变则保留,
+// 否则选择离原位置最近且未被占用的相同文本; 找不到时放弃该修改
+export function relocateEdits(content: string, edits: TextEdit[]): TextEdit[] {
+    const claimed: Array<[number, number]> = [];
+    const overlaps = (from: number, to: number) => claimed.some(([a, b]) => from < b && to > a);
+    const result: TextEdit[] = [];
+
+    for (const edit of edits.slice().sort((a, b) => a.from - b.from)) {
+        let from = -1;
+        if (content.substring(edit.from, edit.to) === edit.original && !overlaps(edit.from, edit.to)) {
+            from = edit.from;
+        } else {
+            let best = -1;
+            let index = content.indexOf(edit.original);
+            while (index !== -1) {
+                if (!overlaps(index, index + edit.original.length) &&
+                    (best === -1 || Math.abs(index - edit.from) < Math.abs(best - edit.from))) {
+                    best = index;
+                }
+                index = content.indexOf(edit.original, index + 1);
+            }
+            from = best;
+        }
+
+        if (from === -1) continue;
+        const to = from + edit.original.length;
+        claimed.push([from, to]);
+        result.push({ ...edit, from, to });
+    }
+
+    return result;
+}
+
+// 把修改应用到正在编辑的文档: 先按当前内容重新定位并校验原文,
+// 再以一个事务提交, 只改动链接所在的范围, 整体作为一步撤销, 不影响上传期间的输入
+export function applyEditsToEditor(editor: Editor, edits: TextEdit[]): TextEdit[] {
+    if (edits.length === 0) return [];
+    const located = relocateEdits(editor.getValue(), edits);
+    if (located.length === 0) return [];
+
+    editor.transaction({
+        changes: located.map(edit => ({
+            from: editor.offsetToPos(edit.from),
+            to: editor.offsetToPos(edit.to),
+            text: edit.text
+        }))
+    }, 'image-uploader');
+    return located;
+}
@@ -0,0 +1,89 @@
+import { JsonStore } from './jsonStore';
+
+// 上传缓存: 以图片内容的 SHA-256 为键记录远程地址, 相同图片不再重复上传
+export interface CacheEntry {
+    // 原图内容的哈希; 启用图片处理时为原图哈希与处理选项的哈希
+    hash: string;
+    url: string;
+    // 图片来源: 原始地址、本地附件路径或 "clipboard"
+    sourceUrl: string;
+    profileId: string;
+    size: number;
+    createdAt: number;
+}
+
+export interface CacheData {
+    version: number;
+    entries: CacheEntry[];
+}
+
+export class UploadCache {
+    private entries: CacheEntry[] = [];
+    private byKey = new Map<string, CacheEntry>();
+    private urls = new Set<string>();
+
+    constructor(private store: JsonStore<CacheData>) {}
+
+    private static key(hash: string, profileId: string): string {
+        return `${profileId}:${hash}`;
+    }
+
+    async load() {
+        const data = await this.store.load();
+        this.setEntries(data?.entries || []);
+    }
+
+    private setEntries(entries: CacheEntry[]) {
+        this.entries = entries;
+        this.byKey.clear();
+        this.urls.clear();
+        entries.forEach(entry => {
+            this.byKey.set(UploadCache.key(entry.hash, entry.profileId), entry);
+            this.urls.add(entry.url);
+        });
+    }
+
+    private async save() {
+        await this.store.save({ version: 1, entries: this.entries });
+    }
+
+    getAll(): CacheEntry[] {
+        return this.entries.slice();
+    }
+
+    // 同一张图片在不同配置下分别缓存, 避免把内部图床地址用到公开笔记中
+    get(hash: string, profileId: string): CacheEntry | undefined {
+        return this.byKey.get(UploadCache.key(hash, profileId));
+    }
+
+    hasUrl(url: string): boolean {
+        return this.urls.has(url);
+    }
+
+    async add(entry: CacheEntry) {
+        const key = UploadCache.key(entry.hash, entry.profileId);
+        const existing = this.byKey.get(key);
+        if (existing) {
+            this.entries = this.entries.filter(e => e !== existing);
+        }
+        this.entries.push(entry);
+        this.setEntries(this.entries);
+        await this.save();
+    }
+
+    // 删除不满足条件的条目, 返回删除数量
+    async prune(keep: (entry: CacheEntry) => boolean): Promise<number> {
+        const kept = this.entries.filter(keep);
+        const removed = this.entries.length - kept.length;
+        if (removed > 0) {
+            this.setEntries(kept);
+            await this.save();
+        }
+        return removed;
+    }
+
+    async clear() {
+        this.setEntries([]);
+        await this.store.clear();
+    }
+}
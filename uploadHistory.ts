@@ -0,0 +1,88 @@
+import { JsonStore } from './jsonStore';
+
+// 上传记录: 每次实际上传成功后记录一条, 缓存命中不算上传
+export interface HistoryEntry {
+    id: string;
+    url: string;
+    // 图片来源: 原始地址、本地附件路径或 "clipboard"
+    sourceUrl: string;
+    // 上传时所在的笔记, 没有时为空
+    notePath: string;
+    profileId: string;
+    // 后端返回的删除信息, 用于删除远程图片
+    deleteKey?: string;
+    size: number;
+    createdAt: number;
+}
+
+export interface HistoryData {
+    version: number;
+    entries: HistoryEntry[];
+}
+
+// 只保留最近的记录, 避免文件无限增长
+const MAX_ENTRIES = 5000;
+
+export class UploadHistory {
+    private entries: HistoryEntry[] = [];
+    private listeners: Array<() => void> = [];
+
+    constructor(private store: JsonStore<HistoryData>) {}
+
+    async load() {
+        const data = await this.store.load();
+        this.entries = data?.entries || [];
+        this.notify();
+    }
+
+    private async save() {
+        await this.store.save({ version: 1, entries: this.entries });
+        this.notify();
+    }
+
+    // 记录变化时通知视图, 返回取消订阅的函数
+    onChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    // 按时间倒序
+    getAll(): HistoryEntry[] {
+        return this.entries.slice().sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    async add(entry: Omit<HistoryEntry, 'id'>) {
+        this.entries.push({ id: Math.random().toString(36).substring(2, 10), ...entry });
+        if (this.entries.length > MAX_ENTRIES) {
+            this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+        }
+        await this.save();
+    }
+
+    findByUrl(url: string): HistoryEntry | undefined {
+        return this.entries.find(entry => entry.url === url);
+    }
+
+    async remove(id: string) {
+        this.entries = this.entries.filter(entry => entry.id !== id);
+        await this.save();
+    }
+
+    // 笔记被重命名时更新路径
+    async renameNote(oldPath: string, newPath: string) {
+        let changed = false;
+        this.entries.forEach(entry => {
+            if (entry.notePath === oldPath) {
+                entry.notePath = newPath;
+                changed = true;
+            }
+        });
+        if (changed) await this.save();
+    }
+}
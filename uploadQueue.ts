@@ -0,0 +1,138 @@
+import { JsonStore } from './jsonStore';
+
+// 离线上传队列: 上传失败或离线时粘贴的图片先保存为本地附件并记录在这里,
+// 定时或恢复联网后重新上传, 成功后把笔记中的链接替换为远程地址
+export interface QueueItem {
+    id: string;
+    // 本地附件路径
+    path: string;
+    // 引用该附件的笔记
+    notePath: string;
+    createdAt: number;
+    attempts: number;
+    lastAttemptAt?: number;
+    lastError?: string;
+}
+
+export interface QueueData {
+    version: number;
+    items: QueueItem[];
+}
+
+export interface UploadQueueHost {
+    // 上传附件并改写笔记中的链接, 失败时抛出错误
+    uploadQueuedItem(item: QueueItem): Promise<void>;
+}
+
+export class UploadQueue {
+    private items: QueueItem[] = [];
+    private flushing = false;
+    private stopped = false;
+    private listeners: Array<() => void> = [];
+
+    constructor(private host: UploadQueueHost, private store: JsonStore<QueueData>) {}
+
+    async load() {
+        const data = await this.store.load();
+        this.items = data?.items || [];
+        this.notify();
+    }
+
+    private async save() {
+        await this.store.save({ version: 1, items: this.items });
+        this.notify();
+    }
+
+    // 队列变化时通知状态栏和队列视图, 返回取消订阅的函数
+    onChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    getAll(): QueueItem[] {
+        return this.items.slice();
+    }
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    isFlushing(): boolean {
+        return this.flushing;
+    }
+
+    async add(path: string, notePath: string) {
+        this.items.push({
+            id: Math.random().toString(36).substring(2, 10),
+            path,
+            notePath,
+            createdAt: Date.now(),
+            attempts: 0
+        });
+        await this.save();
+    }
+
+    async remove(id: string) {
+        this.items = this.items.filter(item => item.id !== id);
+        await this.save();
+    }
+
+    // 附件、笔记或它们所在的文件夹被重命名时更新路径
+    async rename(oldPath: string, newPath: string) {
+        const update = (path: string) => {
+            if (path === oldPath) return newPath;
+            if (path.startsWith(oldPath + '/')) return newPath + path.substring(oldPath.length);
+            return path;
+        };
+        let changed = false;
+        this.items.forEach(item => {
+            const path = update(item.path);
+            const notePath = update(item.notePath);
+            if (path === item.path && notePath === item.notePath) return;
+            item.path = path;
+            item.notePath = notePath;
+            changed = true;
+        });
+        if (changed) await this.save();
+    }
+
+    // 插件卸载时停止重新上传, 正在上传的图片完成后不再继续
+    stop() {
+        this.stopped = true;
+    }
+
+    // 依次重新上传队列中的图片, 返回成功的数量; 离线、已在进行或已停止时直接返回
+    async flush(): Promise<number> {
+        if (this.flushing || this.stopped || this.items.length === 0 || !navigator.onLine) return 0;
+        this.flushing = true;
+        this.notify();
+
+        let success = 0;
+        try {
+            for (const item of this.items.slice()) {
+                if (this.stopped) break;
+                item.attempts++;
+                item.lastAttemptAt = Date.now();
+                try {
+                    await this.host.uploadQueuedItem(item);
+                    this.items = this.items.filter(other => other.id !== item.id);
+                    success++;
+                } catch (error) {
+                    item.lastError = error.message || '未知错误';
+                    console.error(`❌ 队列上传失败: ${item.path}`, error);
+                }
+                await this.save();
+            }
+        } finally {
+            this.flushing = false;
+            this.notify();
+        }
+        return success;
+    }
+}
@@ -0,0 +1,185 @@
+import { App, TFile } from 'obsidian';
+import { ruleMatches } from './profiles';
+
+// 上传规则: 决定哪些图片参与上传
+//   host / path 规则按模式处理: 排除模式下匹配的图片不上传, 仅允许模式下只上传匹配的图片
+//   extension / size / note / tag / frontmatter 规则在两种模式下都用于排除
+export type UploadRuleMode = 'blocklist' | 'allowlist';
+export type UploadRuleType = 'host' | 'path' | 'extension' | 'size' | 'note' | 'tag' | 'frontmatter';
+
+export interface UploadRule {
+    type: UploadRuleType;
+    value: string;
+}
+
+export interface RuleCheck {
+    excluded: boolean;
+    // 起决定作用的规则, 没有时为默认结果
+    rule: UploadRule | null;
+    reason: string;
+}
+
+const INCLUDED: RuleCheck = { excluded: false, rule: null, reason: '没有匹配的排除规则' };
+
+// 主机匹配: "example.com" 只匹配该主机, "*.example.com" 匹配其所有子域名和它本身;
+// 带端口的模式 (如 localhost:3000) 还要求端口相同, 未写端口的地址按协议的默认端口比较
+export function hostMatches(url: string, pattern: string): boolean {
+    let host: string;
+    let port: string;
+    try {
+        const parsed = new URL(url);
+        host = parsed.hostname.toLowerCase();
+        port = parsed.port || (parsed.protocol === 'https:' ? '443' : '80');
+    } catch {
+        return false;
+    }
+    let wanted = pattern.trim().toLowerCase()
+        .replace(/^https?:\/\//, '')
+        .replace(/\/.*$/, '');
+    const portMatch = /:(\d+)$/.exec(wanted);
+    if (portMatch) {
+        if (portMatch[1] !== port) return false;
+        wanted = wanted.substring(0, portMatch.index);
+    }
+    if (!wanted) return false;
+    if (wanted.startsWith('*.')) {
+        const base = wanted.substring(2);
+        return host === base || host.endsWith('.' + base);
+    }
+    return host === wanted;
+}
+
+// 通配符转正则: ** 匹配任意字符, * 和 ? 不跨越 "/"; /.../flags 形式直接作为正则
+export function compilePattern(pattern: string): RegExp | null {
+    const trimmed = pattern.trim();
+    if (!trimmed) return null;
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(trimmed);
+    try {
+        if (regex) return new RegExp(regex[1], regex[2]);
+        const source = trimmed
+            .split('**')
+            .map(part => part
+                .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+                .replace(/\*/g, '[^/]*')
+                .replace(/\?/g, '[^/]'))
+            .join('.*');
+        return new RegExp(`^${source}$`, 'i');
+    } catch {
+        return null;
+    }
+}
+
+// path 规则匹配 "主机/路径", 例如 cdn.example.com/private/** 或 **/thumbs/*; 本地图片匹配其链接路径
+function pathMatches(url: string, pattern: string): boolean {
+    const regex = compilePattern(pattern);
+    if (!regex) return false;
+    let target = url.trim();
+    try {
+        const parsed = new URL(target);
+        target = parsed.host + decodeURI(parsed.pathname);
+    } catch {
+        // 本地路径
+    }
+    return regex.test(target);
+}
+
+function extensionMatches(url: string, value: string): boolean {
+    const ext = url.split(/[?#]/)[0].split('/').pop()?.split('.').slice(1).pop()?.toLowerCase();
+    if (!ext) return false;
+    return value.split(',').map(v => v.trim().replace(/^\./, '').toLowerCase()).includes(ext);
+}
+
+// 解析大小, 如 5MB、500 KB、1048576
+export function parseSize(value: string): number | null {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(value);
+    if (!match) return null;
+    const units: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024, gb: 1024 * 1024 * 1024 };
+    return Math.round(parseFloat(match[1]) * units[(match[2] || 'b').toLowerCase()]);
+}
+
+export function describeRule(rule: UploadRule): string {
+    const labels: Record<UploadRuleType, string> = {
+        host: '主机',
+        path: '路径',
+        extension: '扩展名',
+        size: '大于',
+        note: '笔记',
+        tag: '标签',
+        frontmatter: 'frontmatter'
+    };
+    return `${labels[rule.type]} ${rule.value}`;
+}
+
+// 检查文件扩展名, 地址和粘贴的文件名都适用
+export function checkExtension(rules: UploadRule[], urlOrName: string): RuleCheck {
+    for (const rule of rules) {
+        if (rule.type === 'extension' && rule.value.trim() && extensionMatches(urlOrName, rule.value)) {
+            return { excluded: true, rule, reason: `扩展名被排除: ${describeRule(rule)}` };
+        }
+    }
+    return INCLUDED;
+}
+
+// 检查图片地址: 扩展名排除规则优先, 然后按模式检查 host / path 规则
+export function checkUrl(rules: UploadRule[], mode: UploadRuleMode, url: string): RuleCheck {
+    const extension = checkExtension(rules, url);
+    if (extension.excluded) return extension;
+
+    const urlRules = rules.filter(rule => (rule.type === 'host' || rule.type === 'path') && rule.value.trim());
+    const matched = urlRules.find(rule => rule.type === 'host' ? hostMatches(url, rule.value) : pathMatches(url, rule.value));
+
+    if (mode === 'allowlist') {
+        // 本地附件不受主机允许列表限制
+        if (urlRules.length === 0 || !/^https?:\/\//i.test(url.trim())) return INCLUDED;
+        return matched
+            ? { excluded: false, rule: matched, reason: `匹配允许规则: ${describeRule(matched)}` }
+            : { excluded: true, rule: null, reason: '不匹配任何允许规则' };
+    }
+    return matched
+        ? { excluded: true, rule: matched, reason: `匹配排除规则: ${describeRule(matched)}` }
+        : INCLUDED;
+}
+
+// 检查图片大小, 只有读取或下载图片后才能判断
+export function checkSize(rules: UploadRule[], size: number): RuleCheck {
+    for (const rule of rules) {
+        if (rule.type !== 'size') continue;
+        const limit = parseSize(rule.value);
+        if (limit !== null && size > limit) {
+            return { excluded: true, rule, reason: `图片大于 ${rule.value.trim()}` };
+        }
+    }
+    return INCLUDED;
+}
+
+// 检查笔记: 笔记路径 (通配符)、标签 (包括嵌套标签)、frontmatter (key 或 key=value)
+export function checkNote(app: App, rules: UploadRule[], file: TFile | null): RuleCheck {
+    if (!file) return INCLUDED;
+    for (const rule of rules) {
+        if (!rule.value.trim()) continue;
+        let matched = false;
+        if (rule.type === 'note') {
+            matched = !!compilePattern(rule.value)?.test(file.path);
+        } else if (rule.type === 'tag') {
+            matched = ruleMatches(app, { type: 'tag', value: rule.value, profileId: '' }, file);
+        } else if (rule.type === 'frontmatter') {
+            // 也接受 YAML 写法 "image-upload: false"
+            const value = rule.value.includes('=') ? rule.value : rule.value.replace(':', '=');
+            matched = ruleMatches(app, { type: 'frontmatter', value, profileId: '' }, file);
+        }
+        if (matched) {
+            return { excluded: true, rule, reason: `笔记被排除: ${describeRule(rule)}` };
+        }
+    }
+    return INCLUDED;
+}
+
+// 旧版本的域名黑名单: 以地址 (去掉协议) 开头匹配; 只有域名的条目转为主机规则, 带路径的转为路径规则
+export function migrateBlacklist(domains: string[]): UploadRule[] {
+    return domains
+        .map(domain => domain.trim().replace(/^https?:\/\//i, ''))
+        .filter(domain => domain.length > 0)
+        .map(domain => domain.includes('/')
+            ? { type: 'path' as const, value: `${domain.replace(/\*/g, '')}**` }
+            : { type: 'host' as const, value: domain });
+}
@@ -0,0 +1,136 @@
+import { Notice, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { PLACEHOLDER_API_URL, UploadProfile } from '../profiles';
+import { AuthManager } from '../auth';
+import { evaluateJsonPath, extractImageUrl } from '../responseParser';
+import { HttpClient } from '../request';
+import { TemplateContext, buildTemplateBody, parseFieldLines, renderTemplate } from '../requestTemplate';
+import { UploadResult, Uploader, encodePath } from './common';
+
+function sameOrigin(url: string, other: string): boolean {
+    try {
+        return new URL(url).origin === new URL(other).origin;
+    } catch {
+        return false;
+    }
+}
+
+// 自定义接口: 按请求模板发送图片 (multipart 表单、原始二进制或 JSON), 按 jsonPath 解析返回的地址
+export class ApiUploader implements Uploader {
+    constructor(private profile: UploadProfile, private http: HttpClient, private auth: AuthManager) {}
+
+    async upload(file: File, context: TemplateContext): Promise<UploadResult> {
+        const profile = this.profile;
+
+        // 检查API URL是否是默认值
+        if (profile.apiUrl === PLACEHOLDER_API_URL) {
+            new Notice(`请在设置中为上传配置 "${profile.name}" 填写正确的图片上传API地址`);
+            throw new Error('未配置API地址');
+        }
+
+        // 按模板替换文件名、表单字段、地址和请求头中的变量
+        const render = (template: string) => renderTemplate(template, context);
+        const fileName = profile.fileNameTemplate.trim() ? render(profile.fileNameTemplate.trim()) : file.name;
+        if (fileName !== file.name) file = new File([file], fileName, { type: file.type });
+        const fields = parseFieldLines(profile.extraFields).map(field => ({ name: field.name, value: render(field.value) }));
+        const { body, contentType } = await buildTemplateBody(profile.bodyType, file, profile.fieldName || 'image', fields);
+
+        // 发送请求
+        const url = renderTemplate(profile.apiUrl, context, encodePath);
+        const response = await this.send({
+            url,
+            method: profile.method,
+            body,
+            contentType,
+            headers: this.getHeaders(render)
+        });
+
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`HTTP错误! 状态码: ${response.status}`);
+        }
+
+        // 按 jsonPath 解析响应, 非 JSON 响应回退到 Location 头或纯文本
+        const headers: Record<string, string> = {};
+        Object.keys(response.headers || {}).forEach(key => headers[key.toLowerCase()] = response.headers[key]);
+        const imageUrl = extractImageUrl({
+            status: response.status,
+            headers,
+            text: response.text
+        }, profile.jsonPath, url);
+        return { url: imageUrl, deleteKey: this.extractDeleteKey(response.text) };
+    }
+
+    // 模板需要 {token} 时, 没有保存删除令牌的图片无法删除
+    supportsDelete(deleteKey?: string): boolean {
+        const template = this.profile.deleteUrl.trim();
+        return !!template && (!template.includes('{token}') || !!deleteKey);
+    }
+
+    // 按删除地址模板发送请求: {token} 为上传时保存的删除地址或令牌, {url} 为图片地址;
+    // 模板只有 {token} 时, 令牌本身就是完整的删除地址
+    async delete(url: string, deleteKey?: string): Promise<void> {
+        const template = this.profile.deleteUrl.trim();
+        if (!template) throw new Error(`上传配置 "${this.profile.name}" 没有设置删除地址`);
+        if (template.includes('{token}') && !deleteKey) throw new Error('缺少删除令牌, 无法删除');
+
+        const fullToken = template === '{token}';
+        const deleteUrl = template
+            .replace(/\{token\}/g, fullToken ? deleteKey ?? '' : encodeURIComponent(deleteKey ?? ''))
+            .replace(/\{url\}/g, encodeURIComponent(url));
+
+        // 删除地址来自图床的响应, 可能指向任意主机; 只有与上传接口同源时才附带自定义请求头和认证信息
+        const request: RequestUrlParam = { url: deleteUrl, method: this.profile.deleteMethod || 'DELETE' };
+        const response = sameOrigin(deleteUrl, this.profile.apiUrl)
+            ? await this.send({ ...request, headers: this.getHeaders() })
+            : await this.http.request(request);
+        if ((response.status < 200 || response.status >= 300) && response.status !== 404) {
+            throw new Error(`删除失败: HTTP ${response.status}`);
+        }
+    }
+
+    // 附加认证请求头后发送; 令牌过期返回 401 时刷新令牌并重试一次
+    private async send(params: RequestUrlParam): Promise<RequestUrlResponse> {
+        const request = async () => this.http.request({
+            ...params,
+            headers: {
+                ...params.headers,
+                ...await this.auth.getHeaders(this.profile,
+                    { url: params.url, method: params.method || 'GET', body: params.body }, this.http)
+            }
+        });
+
+        const response = await request();
+        if (response.status !== 401 || !this.auth.canRefresh(this.profile)) return response;
+        console.warn(`⟳ 认证失败 (HTTP 401), 刷新令牌后重试: ${params.url}`);
+        this.auth.invalidate(this.profile);
+        return request();
+    }
+
+    // 从上传响应中取出删除地址或令牌
+    private extractDeleteKey(text: string): string | undefined {
+        const path = this.profile.deleteJsonPath.trim();
+        if (!path) return undefined;
+        try {
+            const value = evaluateJsonPath(JSON.parse(text), path)
+                .find(v => (typeof v === 'string' && v.trim()) || typeof v === 'number');
+            return value === undefined ? undefined : String(value);
+        } catch (error) {
+            console.warn('无法从上传响应中取得删除令牌:', error);
+            return undefined;
+        }
+    }
+
+    private getHeaders(render: (value: string) => string = value => value): Record<string, string> {
+        return parseFieldLines(this.profile.customHeaders).reduce((acc, { name, value }) => {
+            if (value) acc[name] = render(value);
+            return acc;
+        }, {} as Record<string, string>);
+    }
+
+    isOwnUrl(url: string): boolean {
+        try {
+            return url.startsWith(new URL(this.profile.apiUrl).origin);
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,60 @@
+import type { TemplateContext } from '../requestTemplate';
+
+// 上传后端的公共接口与工具函数
+
+export interface UploadResult {
+    url: string;
+    // 删除远程图片所需的信息 (对象路径、删除令牌等), 由各后端自行解释
+    deleteKey?: string;
+}
+
+export interface Uploader {
+    // 上传文件并返回可访问的图片地址, context 提供请求模板中的变量
+    upload(file: File, context: TemplateContext): Promise<UploadResult>;
+    // 判断图片地址是否已经位于该后端上
+    isOwnUrl(url: string): boolean;
+    // 是否可以删除已上传的图片, deleteKey 为上传时返回的信息
+    supportsDelete(deleteKey?: string): boolean;
+    // 删除已上传的图片, deleteKey 为上传时返回的信息
+    delete(url: string, deleteKey?: string): Promise<void>;
+}
+
+export function trimSlashes(value: string): string {
+    return value.replace(/^\/+|\/+$/g, '');
+}
+
+export function joinUrl(base: string, ...parts: string[]): string {
+    const segments = parts.map(trimSlashes).filter(part => part.length > 0);
+    return [base.replace(/\/+$/, ''), ...segments].join('/');
+}
+
+// 按 RFC 3986 编码路径中的每一段, 保留 "/"
+export function encodePath(path: string): string {
+    return path.split('/')
+        .map(segment => encodeURIComponent(segment)
+            .replace(/[!'()*]/g, ch => '%' + ch.charCodeAt(0).toString(16).toUpperCase()))
+        .join('/');
+}
+
+// 生成存储路径: 前缀 + 时间戳 + 清理后的文件名, 避免同名文件互相覆盖
+export function buildObjectPath(prefix: string, fileName: string): string {
+    const safeName = fileName
+        .replace(/[\\/:*?"<>|#%\s]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'image';
+    return [trimSlashes(prefix), `${Date.now()}-${safeName}`]
+        .filter(part => part.length > 0)
+        .join('/');
+}
+
+export function urlStartsWith(url: string, base: string): boolean {
+    if (!base.trim()) return false;
+    return url.startsWith(base.replace(/\/+$/, '') + '/');
+}
+
+export function requireFields(backend: string, config: object, fields: string[]) {
+    const record = config as Record<string, unknown>;
+    const missing = fields.filter(field => !String(record[field] ?? '').trim());
+    if (missing.length > 0) {
+        throw new Error(`${backend} 配置不完整, 缺少: ${missing.join(', ')}`);
+    }
+}
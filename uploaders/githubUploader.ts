@@ -0,0 +1,109 @@
+import { GitHubConfig } from '../profiles';
+import { HttpClient } from '../request';
+import { arrayBufferToBase64 } from '../hash';
+import { UploadResult, Uploader, buildObjectPath, encodePath, joinUrl, requireFields, urlStartsWith } from './common';
+
+interface GitHubResponse {
+    message?: string;
+    content?: { sha?: string, download_url?: string } | null;
+}
+
+// 代理错误页或限流页不是 JSON, 按空响应处理, 以便报告 HTTP 状态码
+function parseResponse(text: string): GitHubResponse {
+    try {
+        const data = JSON.parse(text);
+        return typeof data === 'object' && data !== null ? data : {};
+    } catch {
+        return {};
+    }
+}
+
+// GitHub 仓库: 通过 contents API 提交图片文件
+export class GitHubUploader implements Uploader {
+    // getToken 读取本机保存的访问令牌, 没有设置时抛出错误
+    constructor(private config: GitHubConfig, private http: HttpClient, private getToken: () => string) {}
+
+    async upload(file: File): Promise<UploadResult> {
+        const config = this.config;
+        requireFields('GitHub', config, ['apiBase', 'owner', 'repo', 'branch']);
+
+        const path = buildObjectPath(config.pathPrefix, file.name);
+        const response = await this.http.request({
+            url: this.getContentsUrl(path),
+            method: 'PUT',
+            contentType: 'application/json',
+            headers: this.getHeaders(),
+            body: JSON.stringify({
+                message: `Upload ${path}`,
+                content: arrayBufferToBase64(await file.arrayBuffer()),
+                branch: config.branch
+            })
+        });
+
+        const data = parseResponse(response.text);
+        if (response.status !== 200 && response.status !== 201) {
+            const message = data.message;
+            throw new Error(`GitHub上传失败: HTTP ${response.status}${message ? ` (${message})` : ''}`);
+        }
+
+        // 删除文件需要提交时的 blob sha, 与路径一起保存为 "sha:path"
+        const sha = data.content?.sha;
+        const deleteKey = sha ? `${sha}:${path}` : undefined;
+
+        if (config.publicUrl.trim()) {
+            return { url: joinUrl(config.publicUrl, encodePath(path)), deleteKey };
+        }
+        const downloadUrl = data.content?.download_url;
+        if (!downloadUrl) {
+            throw new Error('GitHub响应中没有 download_url');
+        }
+        return { url: downloadUrl, deleteKey };
+    }
+
+    supportsDelete(deleteKey?: string): boolean {
+        return !!deleteKey;
+    }
+
+    async delete(url: string, deleteKey?: string): Promise<void> {
+        const separator = deleteKey?.indexOf(':') ?? -1;
+        if (!deleteKey || separator === -1) throw new Error('缺少文件 sha, 无法删除');
+        requireFields('GitHub', this.config, ['apiBase', 'owner', 'repo', 'branch']);
+
+        const sha = deleteKey.substring(0, separator);
+        const path = deleteKey.substring(separator + 1);
+        const response = await this.http.request({
+            url: this.getContentsUrl(path),
+            method: 'DELETE',
+            contentType: 'application/json',
+            headers: this.getHeaders(),
+            body: JSON.stringify({
+                message: `Delete ${path}`,
+                sha,
+                branch: this.config.branch
+            })
+        });
+        if (response.status !== 200 && response.status !== 404) {
+            const message = parseResponse(response.text).message;
+            throw new Error(`GitHub删除失败: HTTP ${response.status}${message ? ` (${message})` : ''}`);
+        }
+    }
+
+    private getContentsUrl(path: string): string {
+        const config = this.config;
+        return joinUrl(config.apiBase, 'repos', encodePath(config.owner), encodePath(config.repo), 'contents', encodePath(path));
+    }
+
+    private getHeaders(): Record<string, string> {
+        return {
+            'Authorization': `Bearer ${this.getToken()}`,
+            'Accept': 'application/vnd.github+json'
+        };
+    }
+
+    isOwnUrl(url: string): boolean {
+        const { owner, repo, branch, publicUrl } = this.config;
+        if (urlStartsWith(url, publicUrl)) return true;
+        if (!owner.trim() || !repo.trim()) return false;
+        return urlStartsWith(url, `https://raw.githubusercontent.com/${owner}/${repo}/${branch}`);
+    }
+}
@@ -0,0 +1,28 @@
+import { UploadProfile } from '../profiles';
+import { AUTH_SECRETS, AuthManager } from '../auth';
+import { HttpClient } from '../request';
+import { Uploader } from './common';
+import { ApiUploader } from './apiUploader';
+import { S3Uploader } from './s3Uploader';
+import { WebDavUploader } from './webdavUploader';
+import { GitHubUploader } from './githubUploader';
+
+export type { Uploader, UploadResult } from './common';
+
+// 根据上传配置创建对应的后端
+export function createUploader(profile: UploadProfile, http: HttpClient, auth: AuthManager): Uploader {
+    switch (profile.backend) {
+        case 's3':
+            return new S3Uploader(profile.s3, http,
+                () => auth.requireSecret(profile, AUTH_SECRETS.s3SecretAccessKey, ' S3 访问密钥'));
+        case 'webdav':
+            return new WebDavUploader(profile.webdav, http,
+                () => auth.requireSecret(profile, AUTH_SECRETS.webdavPassword, ' WebDAV 密码'));
+        case 'github':
+            return new GitHubUploader(profile.github, http,
+                () => auth.requireSecret(profile, AUTH_SECRETS.githubToken, ' GitHub 令牌'));
+        case 'api':
+        default:
+            return new ApiUploader(profile, http, auth);
+    }
+}
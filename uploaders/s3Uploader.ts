@@ -0,0 +1,126 @@
+import { S3Config } from '../profiles';
+import { HttpClient } from '../request';
+import { hmacSha256, sha256Hex, toHex } from '../hash';
+import { UploadResult, Uploader, buildObjectPath, encodePath, joinUrl, requireFields, urlStartsWith } from './common';
+
+// S3 兼容存储 (AWS S3 / MinIO / R2 等): 使用 SigV4 签名的 PUT 请求上传对象
+export class S3Uploader implements Uploader {
+    // getSecretKey 读取本机保存的 Secret Access Key, 没有设置时抛出错误
+    constructor(private config: S3Config, private http: HttpClient, private getSecretKey: () => string) {}
+
+    async upload(file: File): Promise<UploadResult> {
+        const config = this.config;
+        requireFields('S3', config, ['endpoint', 'region', 'bucket', 'accessKeyId']);
+
+        const key = buildObjectPath(config.pathPrefix, file.name);
+        const body = await file.arrayBuffer();
+        const contentType = file.type || 'application/octet-stream';
+        const url = this.getObjectUrl(key);
+
+        const headers = await this.signRequest('PUT', new URL(url), body, {
+            'content-type': contentType
+        });
+
+        const response = await this.http.request({
+            url,
+            method: 'PUT',
+            body,
+            headers
+        });
+
+        if (response.status < 200 || response.status >= 300) {
+            const code = /<Code>(.*?)<\/Code>/.exec(response.text || '')?.[1];
+            throw new Error(`S3上传失败: HTTP ${response.status}${code ? ` (${code})` : ''}`);
+        }
+
+        return {
+            url: config.publicUrl.trim() ? joinUrl(config.publicUrl, encodePath(key)) : url,
+            deleteKey: key
+        };
+    }
+
+    supportsDelete(deleteKey?: string): boolean {
+        return !!deleteKey;
+    }
+
+    async delete(url: string, deleteKey?: string): Promise<void> {
+        if (!deleteKey) throw new Error('缺少对象路径, 无法删除');
+        requireFields('S3', this.config, ['endpoint', 'region', 'bucket', 'accessKeyId']);
+
+        const objectUrl = this.getObjectUrl(deleteKey);
+        const headers = await this.signRequest('DELETE', new URL(objectUrl), new ArrayBuffer(0), {});
+        const response = await this.http.request({ url: objectUrl, method: 'DELETE', headers });
+        if (response.status < 200 || response.status >= 300) {
+            const code = /<Code>(.*?)<\/Code>/.exec(response.text || '')?.[1];
+            throw new Error(`S3删除失败: HTTP ${response.status}${code ? ` (${code})` : ''}`);
+        }
+    }
+
+    isOwnUrl(url: string): boolean {
+        const config = this.config;
+        if (urlStartsWith(url, config.publicUrl)) return true;
+        if (!config.endpoint.trim() || !config.bucket.trim()) return false;
+        return urlStartsWith(url, this.getObjectUrl(''));
+    }
+
+    private getObjectUrl(key: string): string {
+        const config = this.config;
+        const endpoint = new URL(config.endpoint.includes('://') ? config.endpoint : `https://${config.endpoint}`);
+        if (config.pathStyle) {
+            return joinUrl(endpoint.origin, encodePath(config.bucket), encodePath(key));
+        }
+        return joinUrl(`${endpoint.protocol}//${config.bucket}.${endpoint.host}`, encodePath(key));
+    }
+
+    // AWS Signature Version 4, 参见 https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+    private async signRequest(method: string, url: URL, body: ArrayBuffer,
+                              extraHeaders: Record<string, string>): Promise<Record<string, string>> {
+        const config = this.config;
+        const secretAccessKey = this.getSecretKey();
+        const now = new Date();
+        const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const dateStamp = amzDate.substring(0, 8);
+        const payloadHash = await sha256Hex(body);
+
+        const headers: Record<string, string> = {
+            ...extraHeaders,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate
+        };
+
+        // host 由请求自动带上, 只参与签名
+        const signed: Record<string, string> = { ...headers, host: url.host };
+        const signedHeaderNames = Object.keys(signed).map(name => name.toLowerCase()).sort();
+        const canonicalHeaders = signedHeaderNames
+            .map(name => `${name}:${signed[name].trim().replace(/\s+/g, ' ')}\n`)
+            .join('');
+        const signedHeaders = signedHeaderNames.join(';');
+
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            url.search.replace(/^\?/, ''),
+            canonicalHeaders,
+            signedHeaders,
+            payloadHash
+        ].join('\n');
+
+        const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+        const stringToSign = [
+            'AWS4-HMAC-SHA256',
+            amzDate,
+            scope,
+            await sha256Hex(canonicalRequest)
+        ].join('\n');
+
+        const dateKey = await hmacSha256(`AWS4${secretAccessKey}`, dateStamp);
+        const regionKey = await hmacSha256(dateKey, config.region);
+        const serviceKey = await hmacSha256(regionKey, 's3');
+        const signingKey = await hmacSha256(serviceKey, 'aws4_request');
+        const signature = toHex(await hmacSha256(signingKey, stringToSign));
+
+        headers['Authorization'] = `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, ` +
+            `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+        return headers;
+    }
+}
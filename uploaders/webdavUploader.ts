@@ -0,0 +1,81 @@
+import { WebDavConfig } from '../profiles';
+import { HttpClient } from '../request';
+import { stringToBase64 } from '../hash';
+import { UploadResult, Uploader, buildObjectPath, encodePath, joinUrl, requireFields, trimSlashes, urlStartsWith } from './common';
+
+// WebDAV (Nextcloud / ownCloud 等): 使用 Basic 认证的 PUT 请求上传文件
+export class WebDavUploader implements Uploader {
+    // getPassword 读取本机保存的密码, 没有设置时抛出错误
+    constructor(private config: WebDavConfig, private http: HttpClient, private getPassword: () => string) {}
+
+    async upload(file: File): Promise<UploadResult> {
+        const config = this.config;
+        requireFields('WebDAV', config, ['serverUrl', 'username']);
+
+        const headers = this.getAuthHeaders();
+        const path = buildObjectPath(config.pathPrefix, file.name);
+        await this.ensureDirectories(path, headers);
+
+        const url = joinUrl(config.serverUrl, encodePath(path));
+        const response = await this.http.request({
+            url,
+            method: 'PUT',
+            body: await file.arrayBuffer(),
+            contentType: file.type || 'application/octet-stream',
+            headers
+        });
+
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`WebDAV上传失败: HTTP ${response.status}`);
+        }
+
+        return {
+            url: config.publicUrl.trim() ? joinUrl(config.publicUrl, encodePath(path)) : url,
+            deleteKey: path
+        };
+    }
+
+    isOwnUrl(url: string): boolean {
+        return urlStartsWith(url, this.config.publicUrl) || urlStartsWith(url, this.config.serverUrl);
+    }
+
+    supportsDelete(deleteKey?: string): boolean {
+        return !!deleteKey;
+    }
+
+    async delete(url: string, deleteKey?: string): Promise<void> {
+        if (!deleteKey) throw new Error('缺少文件路径, 无法删除');
+        requireFields('WebDAV', this.config, ['serverUrl', 'username']);
+
+        const response = await this.http.request({
+            url: joinUrl(this.config.serverUrl, encodePath(deleteKey)),
+            method: 'DELETE',
+            headers: this.getAuthHeaders()
+        });
+        // 文件已不存在时视为删除成功
+        if ((response.status < 200 || response.status >= 300) && response.status !== 404) {
+            throw new Error(`WebDAV删除失败: HTTP ${response.status}`);
+        }
+    }
+
+    private getAuthHeaders(): Record<string, string> {
+        return {
+            'Authorization': `Basic ${stringToBase64(`${this.config.username}:${this.getPassword()}`)}`
+        };
+    }
+
+    // 逐级创建父目录; 目录已存在时服务器返回 405, 忽略即可
+    private async ensureDirectories(path: string, headers: Record<string, string>) {
+        const segments = trimSlashes(path).split('/').slice(0, -1);
+        for (let i = 1; i <= segments.length; i++) {
+            const response = await this.http.request({
+                url: joinUrl(this.config.serverUrl, encodePath(segments.slice(0, i).join('/'))) + '/',
+                method: 'MKCOL',
+                headers
+            });
+            if (response.status >= 400 && response.status !== 405) {
+                throw new Error(`WebDAV创建目录失败: HTTP ${response.status}`);
+            }
+        }
+    }
+}